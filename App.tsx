@@ -1,34 +1,187 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GameState, Pose, MatchResult } from './types';
+import { DrawingUtils, NormalizedLandmark, PoseLandmarker } from '@mediapipe/tasks-vision';
+import { GameState, Pose, MatchResult, PoseFrame, JudgeMode, Landmark, ViewSettings, BodyCalibration } from './types';
 import { POSES, GAME_DURATION } from './constants';
-import { evaluatePoseOffline } from './services/poseService';
+import { pushFrame, firstMatchTime } from './services/poseWindow';
+import { PoseTracker, DisplayFrames, EMPTY_DISPLAY, createPoseTracker, advanceDisplay, displayLandmarks } from './services/poseTracker';
+import { createJudge } from './services/judges';
+import { isGeminiConfigured } from './services/geminiService';
+import { DifficultyId, DIFFICULTIES, WallOutcome, levelForWalls, comboMultiplier, ON_BEAT_BONUS } from './services/progression';
+import { RunState, RunRules, startRun, dealWall, beginJudging, judgeWall, runLevel, runMaxLives, randomSeed, seedCode, dailyKey, dailySeed, DAILY_DIFFICULTY } from './services/gameEngine';
+import { SessionConfig, parseGameConfig, configUrl, configFromUrl } from './services/gameConfig';
+import { loadCustomPoses, saveCustomPoses } from './services/poseLibrary';
+import { SessionRecording, createRecording, recordFrame, recordEvent, serializeRecording, parseRecording, resolvePose, rescoreJudgement, frameIndexAt } from './services/sessionRecording';
+import { Profile, HighScore, ProfileStats, WallRecord, listProfiles, createProfile, listSessions, listHighScores, saveSession, computeProfileStats, getActiveProfileId, setActiveProfileId } from './services/profileStore';
+import { BeatAnalysis, analyzeBeats, getCachedAnalysis, cacheAnalysis, secondsUntilBeat, beatPeriod, isOnBeat } from './services/beatDetection';
+import { buildReferenceSkeleton } from './services/poseService';
+import { loadViewSettings, saveViewSettings, applyHandedness, withMirroredTwins, isAsymmetric } from './services/handedness';
+import { fitSilhouette, drawSilhouetteHole, drawLimbFit } from './services/silhouette';
+import { ScheduledRoutine, StepResult, parseRoutine, scoreStep, stepIndexAt } from './services/choreography';
+import { ScheduledWorkout, WorkoutProgress, advanceWorkout, parseWorkout, skipWorkoutPhase, startWorkout, tickWorkout } from './services/fitness';
+import { CameraDevice, CameraSettings, VideoSourceHandle, VideoSourceSpec, loadCameraSettings, saveCameraSettings, listCameras, resolveCamera, openVideoSource, rewindVideoFile } from './services/videoSource';
+import { FramingCheck, CALIBRATION_HOLD_MS, checkFraming, measureBody } from './services/calibration';
+import { HighlightGallery, HighlightRecorder, EMPTY_GALLERY, createHighlightRecorder, freezeFrame, captureSnapshot, addSnapshot, addClip, clearGallery } from './services/highlights';
+import { AudioSettings, SoundEngine, createSoundEngine, loadAudioSettings, saveAudioSettings, countdownCue } from './services/soundEngine';
+import { LANGUAGES, useI18n, poseText, feedbackText, errorText } from './i18n';
+import PoseStudio from './components/PoseStudio';
+import SkeletonPreview from './components/SkeletonPreview';
+import PoseCorrection from './components/PoseCorrection';
+import ProfilePanel from './components/ProfilePanel';
+import PlayerStats from './components/PlayerStats';
+import RoutineHud from './components/RoutineHud';
+import RoutineSummary from './components/RoutineSummary';
+import WorkoutHud from './components/WorkoutHud';
+import WorkoutSummary from './components/WorkoutSummary';
+import CalibrationOverlay from './components/CalibrationOverlay';
+import SourcePicker from './components/SourcePicker';
+import SeedPanel from './components/SeedPanel';
+import SessionGallery from './components/SessionGallery';
+
+const JUDGE_MODES: { mode: JudgeMode; core: string }[] = [
+  { mode: 'offline', core: 'LOCAL_HEURISTICS_V1' },
+  { mode: 'hybrid', core: 'HYBRID_ESCALATION' },
+  { mode: 'gemini', core: 'GEMINI_VISION' }
+];
+
+// Playback state for a recorded session driving the game instead of the camera
+interface ReplayState {
+  recording: SessionRecording;
+  startedAt: number;
+  frameIndex: number;
+  eventIndex: number;
+  // The pose as recorded, before the session's side convention is applied
+  roundPose: Pose | null;
+  roundStart: number;
+  roundDuration: number;
+  roundThreshold?: number;
+}
 
 const App: React.FC = () => {
+  const { language, t, setLanguage } = useI18n();
   const [gameState, setGameState] = useState<GameState>(GameState.START);
   const [currentPose, setCurrentPose] = useState<Pose | null>(null);
   const [score, setScore] = useState(0);
   const [timeLeft, setTimeLeft] = useState(GAME_DURATION);
   const [lastResult, setLastResult] = useState<MatchResult | null>(null);
+  // The frame the last wall was judged on, frozen for the result screen
+  const [judgedLandmarks, setJudgedLandmarks] = useState<Landmark[] | null>(null);
   const [isCameraReady, setIsCameraReady] = useState(false);
   const [lives, setLives] = useState(3);
   const [isTracking, setIsTracking] = useState(false);
   const [cameraError, setCameraError] = useState<string | null>(null);
-  const [savePhotos, setSavePhotos] = useState(false);
-  const [cameraResolution, setCameraResolution] = useState({ width: 640, height: 480 });
+  // The pose worker has loaded its model, or failed to; the reason goes to the console
+  const [isTrackerReady, setIsTrackerReady] = useState(false);
+  const [isTrackerFailed, setIsTrackerFailed] = useState(false);
+  // Photos and clips of the run, kept for the game-over gallery
+  const [saveHighlights, setSaveHighlights] = useState(false);
+  const [gallery, setGallery] = useState<HighlightGallery>(EMPTY_GALLERY);
+  const [isAssemblingReel, setIsAssemblingReel] = useState(false);
+  const [videoExtension, setVideoExtension] = useState('webm');
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  // A video file played through the pose pipeline instead of the camera
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [isCameraLost, setIsCameraLost] = useState(false);
+  // Bumped to reopen the current source after a failure
+  const [sourceAttempt, setSourceAttempt] = useState(0);
+  const [customPoses, setCustomPoses] = useState<Pose[]>(loadCustomPoses);
+  const [lastRecording, setLastRecording] = useState<SessionRecording | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [recordedResult, setRecordedResult] = useState<MatchResult | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  // Set up from a config file or link; normal runs follow it until it's removed
+  const [gameConfig, setGameConfig] = useState<SessionConfig | null>(null);
+  const [configError, setConfigError] = useState<string | null>(null);
+  const [isConfigLinkCopied, setIsConfigLinkCopied] = useState(false);
+  const [judgeMode, setJudgeMode] = useState<JudgeMode>('offline');
+  const [viewSettings, setViewSettings] = useState<ViewSettings>(loadViewSettings);
+  const [difficulty, setDifficulty] = useState<DifficultyId>('normal');
+  const [wallMs, setWallMs] = useState(GAME_DURATION);
+  const [wallsCleared, setWallsCleared] = useState(0);
+  const [streak, setStreak] = useState(0);
+  const [lastOutcome, setLastOutcome] = useState<WallOutcome | null>(null);
+  // Shareable code for the current run; null when custom poses make it unrepeatable elsewhere
+  const [runInfo, setRunInfo] = useState<{ seed: number; difficulty: DifficultyId; code: string | null; daily: boolean } | null>(null);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfileId, setActiveProfile] = useState<string | null>(getActiveProfileId);
+  const [profileStats, setProfileStats] = useState<ProfileStats | null>(null);
+  const [highScores, setHighScores] = useState<HighScore[]>([]);
+  const [previousBest, setPreviousBest] = useState<number | null>(null);
+  const [routine, setRoutine] = useState<ScheduledRoutine | null>(null);
+  const [routineElapsed, setRoutineElapsed] = useState(0);
+  const [routineResults, setRoutineResults] = useState<StepResult[]>([]);
+  const [routineError, setRoutineError] = useState<string | null>(null);
+  const [workout, setWorkout] = useState<ScheduledWorkout | null>(null);
+  const [workoutProgress, setWorkoutProgress] = useState<WorkoutProgress | null>(null);
+  const [workoutClock, setWorkoutClock] = useState(0);
+  const [workoutError, setWorkoutError] = useState<string | null>(null);
+  const [track, setTrack] = useState<{ name: string; analysis: BeatAnalysis } | null>(null);
+  const [isAnalyzingTrack, setIsAnalyzingTrack] = useState(false);
+  const [trackError, setTrackError] = useState<string | null>(null);
+  const [calibration, setCalibration] = useState<BodyCalibration | null>(null);
+  const [framing, setFraming] = useState<FramingCheck | null>(null);
+  const [calibrationProgress, setCalibrationProgress] = useState(0);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
 
   // Use Refs for values needed in high-frequency loops to avoid re-initializing logic
   const timeLeftRef = useRef(GAME_DURATION);
+  const wallMsRef = useRef(GAME_DURATION);
+  const currentPoseRef = useRef<Pose | null>(null);
+  const mirrorDisplayRef = useRef(true);
   const gameStateRef = useRef<GameState>(GameState.START);
+  const isCameraLostRef = useRef(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const timerRef = useRef<number | null>(null);
   const lastPoseResults = useRef<any>(null);
+  // Latest results kept for smooth drawing between inference frames
+  const displayFramesRef = useRef<DisplayFrames>(EMPTY_DISPLAY);
+  const poseFramesRef = useRef<PoseFrame[]>([]);
   const renderLoopRef = useRef<number | null>(null);
   const isInitializingRef = useRef(false);
-  const poseInstanceRef = useRef<any>(null);
-  const isProcessingRef = useRef(false);
+  const poseTrackerRef = useRef<PoseTracker | null>(null);
+  const videoSourceRef = useRef<VideoSourceSpec | null>(null);
+  const recordingRef = useRef<SessionRecording | null>(null);
+  const recordingStartRef = useRef(0);
+  const replayRef = useRef<ReplayState | null>(null);
+  const replayLoopRef = useRef<number | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  // The run's rules state, read by callbacks that outlive a render (replay loop, judging)
+  const runStateRef = useRef<RunState>(startRun(0, 'normal'));
+  // Poses the current run deals from, fixed when it starts
+  const runPosesRef = useRef<Pose[]>(POSES);
+  const roundThresholdRef = useRef<number | undefined>(undefined);
+  // Walls judged in the current live run, saved to the active profile at game over
+  const runWallsRef = useRef<WallRecord[]>([]);
+  // Every frame since the current routine step started; the wall buffer is too short for long holds
+  const routineFramesRef = useRef<PoseFrame[] | null>(null);
+  const routineStartRef = useRef(0);
+  const routineInputRef = useRef<HTMLInputElement>(null);
+  // Frames not yet fed to the workout; the workout tick drains it
+  const workoutFramesRef = useRef<PoseFrame[] | null>(null);
+  const workoutProgressRef = useRef<WorkoutProgress | null>(null);
+  const workoutInputRef = useRef<HTMLInputElement>(null);
+  // Music: the decoded track, its beat grid and the playing source
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const trackBufferRef = useRef<AudioBuffer | null>(null);
+  const trackAnalysisRef = useRef<BeatAnalysis | null>(null);
+  const musicSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Effects, voice and the master volume the music also plays through
+  const soundRef = useRef<SoundEngine | null>(null);
+  const audioSettingsRef = useRef(audioSettings);
+  const previousTimeLeftRef = useRef(GAME_DURATION);
+  const highlightRecorderRef = useRef<HighlightRecorder | null>(null);
+  const musicStartRef = useRef(0);
+  const trackInputRef = useRef<HTMLInputElement>(null);
+  const configInputRef = useRef<HTMLInputElement>(null);
+  // With music the wall ends on a beat rather than after a fixed countdown
+  const wallStartRef = useRef(0);
+  const wallDeadlineRef = useRef<number | null>(null);
+  // Body measurements for the current player and what to start once they're taken
+  const calibrationRef = useRef<BodyCalibration | null>(null);
+  const pendingStartRef = useRef<(() => void) | null>(null);
 
   // Keep refs in sync with state
   useEffect(() => {
@@ -39,6 +192,37 @@ const App: React.FC = () => {
     gameStateRef.current = gameState;
   }, [gameState]);
 
+  useEffect(() => {
+    isCameraLostRef.current = isCameraLost;
+  }, [isCameraLost]);
+
+  useEffect(() => {
+    currentPoseRef.current = currentPose;
+    wallMsRef.current = wallMs;
+  }, [currentPose, wallMs]);
+
+  useEffect(() => {
+    saveCustomPoses(customPoses);
+  }, [customPoses]);
+
+  useEffect(() => {
+    saveAudioSettings(audioSettings);
+    audioSettingsRef.current = audioSettings;
+    soundRef.current?.setSettings(audioSettings);
+  }, [audioSettings]);
+
+  useEffect(() => {
+    saveViewSettings(viewSettings);
+    mirrorDisplayRef.current = viewSettings.mirrorDisplay;
+  }, [viewSettings]);
+
+  const getPoseFrames = useCallback(() => poseFramesRef.current, []);
+
+  const getAspectRatio = () => {
+    const video = videoRef.current;
+    return video && video.videoHeight ? video.videoWidth / video.videoHeight : undefined;
+  };
+
   // High-performance render loop for the UI - defined once
   const draw = useCallback(() => {
     if (!overlayCanvasRef.current || !videoRef.current) {
@@ -49,10 +233,9 @@ const App: React.FC = () => {
     const canvas = overlayCanvasRef.current;
     const ctx = canvas.getContext('2d');
     const video = videoRef.current;
-    const win = window as any;
-    const { drawConnectors, drawLandmarks, POSE_CONNECTIONS } = win;
 
-    if (!ctx || video.readyState < 2) {
+    const isReplay = replayRef.current !== null;
+    if (!ctx || (!isReplay && video.readyState < 2)) {
       renderLoopRef.current = requestAnimationFrame(draw);
       return;
     }
@@ -60,29 +243,51 @@ const App: React.FC = () => {
     ctx.save();
     ctx.clearRect(0, 0, canvas.width, canvas.height);
     
-    // Mirror and Draw Video Frame
-    ctx.translate(canvas.width, 0);
-    ctx.scale(-1, 1);
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    // Mirror (unless the player turned it off) and Draw Video Frame
+    if (mirrorDisplayRef.current) {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+    if (isReplay) {
+      ctx.fillStyle = '#020617';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    } else {
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    }
+
+    // Cut the wall's silhouette around the player, growing more solid as it approaches
+    const landmarks = displayLandmarks(displayFramesRef.current, performance.now());
+    const targetPose = currentPoseRef.current;
+    let fit = null;
+    if (gameStateRef.current === GameState.PLAYING && targetPose && landmarks) {
+      const aspectRatio = replayRef.current?.recording.aspectRatio ?? (video.videoHeight ? video.videoWidth / video.videoHeight : undefined);
+      const calibration = replayRef.current ? replayRef.current.recording.calibration : calibrationRef.current ?? undefined;
+      fit = fitSilhouette(landmarks, targetPose, { aspectRatio, calibration });
+      if (fit) {
+        const progress = 1 - timeLeftRef.current / Math.max(1, wallMsRef.current);
+        drawSilhouetteHole(ctx, fit, 0.2 + 0.45 * progress);
+      }
+    }
 
     // Draw Skeleton Landmarks
-    const results = lastPoseResults.current;
-    if (results?.poseLandmarks && drawConnectors && drawLandmarks && POSE_CONNECTIONS) {
+    if (landmarks && landmarks.length > 0) {
       try {
-        if (Array.isArray(results.poseLandmarks) && results.poseLandmarks.length > 0) {
-          // Use refs to determine visual style without re-triggering the loop setup
-          const isWarning = timeLeftRef.current < 1500 && gameStateRef.current === GameState.PLAYING;
-          drawConnectors(ctx, results.poseLandmarks, POSE_CONNECTIONS, {
-            color: isWarning ? '#f43f5e' : '#06b6d4',
-            lineWidth: 4,
-          });
-          drawLandmarks(ctx, results.poseLandmarks, {
-            color: '#ffffff',
-            fillColor: '#06b6d4',
-            lineWidth: 1,
-            radius: 3,
-          });
-        }
+        const drawing = new DrawingUtils(ctx);
+        // Recorded frames may lack z or visibility, which the drawing utils don't need
+        const drawn = landmarks as NormalizedLandmark[];
+        // Use refs to determine visual style without re-triggering the loop setup
+        const isWarning = timeLeftRef.current < 1500 && gameStateRef.current === GameState.PLAYING;
+        drawing.drawConnectors(drawn, PoseLandmarker.POSE_CONNECTIONS, {
+          color: isWarning ? '#f43f5e' : '#06b6d4',
+          lineWidth: 4,
+        });
+        if (fit) drawLimbFit(ctx, landmarks, fit);
+        drawing.drawLandmarks(drawn, {
+          color: '#ffffff',
+          fillColor: '#06b6d4',
+          lineWidth: 1,
+          radius: 3,
+        });
       } catch (e) {}
     }
     ctx.restore();
@@ -90,26 +295,24 @@ const App: React.FC = () => {
     renderLoopRef.current = requestAnimationFrame(draw);
   }, []); // Constant reference
 
-  // Throttled processing loop for MediaPipe at 30 FPS
+  // Feeds camera frames to the inference worker at up to 30 FPS; the worker
+  // takes one frame at a time, so a slow model simply gets fewer
   useEffect(() => {
     let frameId: number;
     let lastTime = 0;
     const targetFps = 30;
     const interval = 1000 / targetFps;
 
-    const processFrame = async (now: number) => {
+    const processFrame = (now: number) => {
       if (!lastTime) lastTime = now;
       const elapsed = now - lastTime;
 
       if (elapsed >= interval) {
-        if (!isProcessingRef.current && videoRef.current && videoRef.current.readyState >= 2 && poseInstanceRef.current) {
-          isProcessingRef.current = true;
-          try {
-            await poseInstanceRef.current.send({ image: videoRef.current });
+        const video = videoRef.current;
+        // A finished video file would otherwise keep feeding its last frame
+        if (!replayRef.current && video && video.readyState >= 2 && !video.paused && poseTrackerRef.current) {
+          if (poseTrackerRef.current.send(video)) {
             lastTime = now - (elapsed % interval);
-          } catch (e) {
-          } finally {
-            isProcessingRef.current = false;
           }
         }
       }
@@ -123,72 +326,46 @@ const App: React.FC = () => {
     return () => cancelAnimationFrame(frameId);
   }, [isCameraReady]);
 
-  // MediaPipe & Camera Initialization - Runs only once
+  // MediaPipe Initialization - Runs only once
   useEffect(() => {
     if (isInitializingRef.current) return;
     isInitializingRef.current = true;
 
-    let stream: MediaStream | null = null;
     let isActive = true;
 
-    const init = async () => {
-      const win = window as any;
-      if (!win.Pose) {
-        if (isActive) setTimeout(init, 500);
-        return;
-      }
+    // The overlay also renders replays, so it runs whether or not a camera shows up
+    renderLoopRef.current = requestAnimationFrame(draw);
 
+    const init = async () => {
       try {
-        const VERSION = '0.5.1675469404';
-        const pose = new win.Pose({
-          locateFile: (file: string) => {
-            if (file.startsWith('https://')) return file;
-            return `https://cdn.jsdelivr.net/npm/@mediapipe/pose@${VERSION}/${file}`;
+        poseTrackerRef.current = createPoseTracker({
+          onReady: () => {
+            if (isActive) setIsTrackerReady(true);
           },
-        });
-
-        pose.setOptions({
-          modelComplexity: 0, 
-          smoothLandmarks: true,
-          minDetectionConfidence: 0.5,
-          minTrackingConfidence: 0.5,
-        });
-
-        pose.onResults((results: any) => {
-          if (!isActive) return;
-          setIsTracking(true);
-          lastPoseResults.current = results;
-        });
-
-        poseInstanceRef.current = pose;
-
-        try {
-          stream = await navigator.mediaDevices.getUserMedia({
-            video: { 
-              width: { ideal: cameraResolution.width }, 
-              height: { ideal: cameraResolution.height }, 
-              frameRate: { ideal: 30, max: 30 } 
-            },
-            audio: false
-          });
-          
-          if (videoRef.current && isActive) {
-            videoRef.current.srcObject = stream;
-            videoRef.current.onloadedmetadata = () => {
-              if (videoRef.current) {
-                videoRef.current.play();
-                setIsCameraReady(true);
-                // Start the loop only once
-                renderLoopRef.current = requestAnimationFrame(draw);
+          onResult: (t, landmarks) => {
+            if (!isActive || replayRef.current) return;
+            setIsTracking(true);
+            lastPoseResults.current = { poseLandmarks: landmarks ?? undefined };
+            const frame = landmarks ? { t, landmarks } : null;
+            displayFramesRef.current = advanceDisplay(displayFramesRef.current, frame, performance.now());
+            if (frame) {
+              pushFrame(poseFramesRef.current, frame);
+              routineFramesRef.current?.push(frame);
+              workoutFramesRef.current?.push(frame);
+              if (recordingRef.current) {
+                recordFrame(recordingRef.current, { ...frame, t: frame.t - recordingStartRef.current });
               }
-            };
-          }
-        } catch (err: any) {
-          console.error("Camera Access Denied:", err);
-          setCameraError(err.message || "Could not access camera.");
-        }
+            }
+          },
+          onInitError: message => {
+            console.error("MediaPipe Init Error:", message);
+            if (isActive) setIsTrackerFailed(true);
+          },
+          onError: message => console.error("Pose Worker Error:", message)
+        });
       } catch (err: any) {
         console.error("MediaPipe Init Error:", err);
+        setIsTrackerFailed(true);
       }
     };
 
@@ -196,95 +373,610 @@ const App: React.FC = () => {
 
     return () => {
       isActive = false;
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-      if (poseInstanceRef.current) {
-        try { poseInstanceRef.current.close(); } catch (e) {}
-      }
+      poseTrackerRef.current?.close();
+      poseTrackerRef.current = null;
       if (renderLoopRef.current) cancelAnimationFrame(renderLoopRef.current);
+      if (replayLoopRef.current) cancelAnimationFrame(replayLoopRef.current);
       isInitializingRef.current = false;
     };
   }, [draw]); // draw is now constant
 
+  // Video source: (re)opens the camera or video file whenever the choice changes
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let handle: VideoSourceHandle | null = null;
+    // Aborted when the source changes again, so a slower earlier open releases its camera
+    const controller = new AbortController();
+
+    // Poses from the old source must not leak into the new one
+    setIsCameraReady(false);
+    setIsTracking(false);
+    lastPoseResults.current = null;
+    displayFramesRef.current = EMPTY_DISPLAY;
+    poseFramesRef.current = [];
+
+    const open = async () => {
+      const spec: VideoSourceSpec = videoFile
+        ? { kind: 'file', file: videoFile }
+        : { kind: 'camera', ...resolveCamera(cameraSettings, await listCameras()) };
+      const opened = await openVideoSource(video, spec, {
+        onEnded: () => {
+          if (spec.kind === 'camera') setIsCameraLost(true);
+        }
+      }, controller.signal);
+      // Cleanup may have run between the open settling and this line
+      if (controller.signal.aborted) {
+        opened.stop();
+        return;
+      }
+      handle = opened;
+      videoSourceRef.current = spec;
+      setIsCameraLost(false);
+      setCameraError(null);
+      setIsCameraReady(true);
+      // Device labels only show up once the camera permission is granted
+      setCameras(await listCameras());
+    };
+
+    open().catch((err: any) => {
+      if (controller.signal.aborted) return;
+      console.error("Video Source Error:", err);
+      // While reconnecting, failed attempts are expected and retried quietly
+      if (!isCameraLostRef.current) setCameraError(errorText(err, t, t.errors.cameraUnavailable));
+    });
+
+    return () => {
+      controller.abort();
+      handle?.stop();
+    };
+  }, [cameraSettings, videoFile, sourceAttempt]);
+
+  // An unplugged camera is retried when devices change and every few seconds
+  useEffect(() => {
+    if (!isCameraLost || videoFile) return;
+    const retry = () => setSourceAttempt(n => n + 1);
+    const id = window.setInterval(retry, 2000);
+    navigator.mediaDevices?.addEventListener('devicechange', retry);
+    return () => {
+      clearInterval(id);
+      navigator.mediaDevices?.removeEventListener('devicechange', retry);
+    };
+  }, [isCameraLost, videoFile]);
+
+  useEffect(() => {
+    saveCameraSettings(cameraSettings);
+  }, [cameraSettings]);
+
   const nextRound = useCallback(() => {
-    const randomPose = POSES[Math.floor(Math.random() * POSES.length)];
-    setCurrentPose(randomPose);
-    setTimeLeft(GAME_DURATION);
-    setGameState(GameState.PLAYING);
+    const run = dealWall(runStateRef.current, runPosesRef.current);
+    runStateRef.current = run;
+    const wall = run.wall!;
+    roundThresholdRef.current = wall.threshold;
+    setCurrentPose(applyHandedness(wall.pose, viewSettings));
+    // Snap the wall's arrival to the beat nearest the level's wall time
+    const analysis = trackAnalysisRef.current;
+    const wallDuration = analysis && musicSourceRef.current
+      ? Math.round(secondsUntilBeat(analysis, songTime(), wall.wallMs / 1000 - beatPeriod(analysis) / 2) * 1000)
+      : wall.wallMs;
+    wallStartRef.current = performance.now();
+    wallDeadlineRef.current = analysis && musicSourceRef.current ? wallStartRef.current + wallDuration : null;
+    setWallMs(wallDuration);
+    setTimeLeft(wallDuration);
+    highlightRecorderRef.current?.startWall();
+    setGameState(run.phase);
     setLastResult(null);
+    setLastOutcome(null);
+    if (recordingRef.current) {
+      recordEvent(recordingRef.current, {
+        t: performance.now() - recordingStartRef.current,
+        type: 'round-start',
+        pose: wall.pose,
+        durationMs: wallDuration,
+        threshold: roundThresholdRef.current
+      });
+    }
+  }, [viewSettings]);
+
+  const getAudioContext = () => {
+    if (!audioContextRef.current) audioContextRef.current = new AudioContext();
+    return audioContextRef.current;
+  };
+
+  const getSound = () => {
+    if (!soundRef.current) soundRef.current = createSoundEngine(getAudioContext(), audioSettingsRef.current);
+    return soundRef.current;
+  };
+
+  // Position in the looping track, in seconds
+  const songTime = () => {
+    const buffer = trackBufferRef.current;
+    if (!buffer || !audioContextRef.current) return 0;
+    return (audioContextRef.current.currentTime - musicStartRef.current) % buffer.duration;
+  };
+
+  const loadTrack = async (file: File) => {
+    setIsAnalyzingTrack(true);
+    setTrackError(null);
+    try {
+      const buffer = await getAudioContext().decodeAudioData(await file.arrayBuffer());
+      let analysis = getCachedAnalysis(file);
+      if (!analysis) {
+        analysis = analyzeBeats(buffer);
+        cacheAnalysis(file, analysis);
+      }
+      trackBufferRef.current = buffer;
+      trackAnalysisRef.current = analysis;
+      setTrack({ name: file.name, analysis });
+    } catch (err: any) {
+      setTrackError(errorText(err, t, t.errors.trackUnreadable));
+    } finally {
+      setIsAnalyzingTrack(false);
+    }
+  };
+
+  const stopMusic = () => {
+    musicSourceRef.current?.stop();
+    musicSourceRef.current?.disconnect();
+    musicSourceRef.current = null;
+  };
+
+  const removeTrack = () => {
+    stopMusic();
+    trackBufferRef.current = null;
+    trackAnalysisRef.current = null;
+    setTrack(null);
+  };
+
+  const startMusic = () => {
+    stopMusic();
+    const buffer = trackBufferRef.current;
+    if (!buffer) return;
+    const ctx = getAudioContext();
+    ctx.resume();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(getSound().output);
+    source.start();
+    musicSourceRef.current = source;
+    musicStartRef.current = ctx.currentTime;
+  };
+
+  // Reloads the profile list, the active profile's stats and the high-score table
+  const refreshProfiles = useCallback(async (preferredId: string | null) => {
+    try {
+      let list = await listProfiles();
+      if (list.length === 0) list = [await createProfile(t.profiles.defaultName)];
+      const active = list.find(profile => profile.id === preferredId) ?? list[0];
+      const [sessions, scores] = await Promise.all([listSessions(active.id), listHighScores()]);
+      setActiveProfileId(active.id);
+      setActiveProfile(active.id);
+      setProfiles(list);
+      setProfileStats(computeProfileStats(sessions));
+      setHighScores(scores);
+    } catch (err) {
+      // Private browsing can refuse IndexedDB; the game still works without stats
+      console.error("Profile Load Error:", err);
+    }
   }, []);
 
-  const startGame = () => {
-    setScore(0);
-    setLives(3);
+  useEffect(() => {
+    refreshProfiles(getActiveProfileId());
+  }, [refreshProfiles]);
+
+  const addProfile = async (name: string) => {
+    try {
+      const profile = await createProfile(name);
+      await refreshProfiles(profile.id);
+    } catch (err) {
+      console.error("Profile Create Error:", err);
+    }
+  };
+
+  const saveRun = async (finalScore: number) => {
+    if (!activeProfileId || runWallsRef.current.length === 0) return;
+    setPreviousBest(profileStats?.bestScore ?? 0);
+    try {
+      await saveSession({
+        profileId: activeProfileId,
+        playedAt: Date.now(),
+        score: finalScore,
+        difficulty: runStateRef.current.difficulty,
+        level: runLevel(runStateRef.current),
+        walls: runWallsRef.current,
+        seed: runStateRef.current.seed,
+        daily: runInfo?.daily ? dailyKey() : undefined
+      });
+      await refreshProfiles(activeProfileId);
+    } catch (err) {
+      console.error("Session Save Error:", err);
+    }
+  };
+
+  // Mirrors the engine's run state into what the HUD renders
+  const syncRun = (run: RunState) => {
+    runStateRef.current = run;
+    setScore(run.score);
+    setLives(run.lives);
+    setStreak(run.streak);
+    setWallsCleared(run.wallsCleared);
+    setLastOutcome(run.lastOutcome);
+  };
+
+  const resetRun = (runDifficulty: DifficultyId, seed = randomSeed(), rules?: RunRules) => {
+    syncRun(startRun(seed, runDifficulty, rules));
+    setLastResult(null);
+  };
+
+  // Shared runs (daily challenge, seed codes) deal from the built-in poses only,
+  // so everyone who enters the code gets the same walls. They also skip the game config.
+  const startGame = (shared?: { seed: number; difficulty: DifficultyId; daily?: boolean }) => {
+    const config = shared ? null : gameConfig;
+    const runDifficulty = shared?.difficulty ?? difficulty;
+    const seed = shared?.seed ?? config?.seed ?? randomSeed();
+    const poses = [...POSES, ...customPoses];
+    runPosesRef.current = shared ? POSES : viewSettings.mirroredTwins ? withMirroredTwins(poses) : poses;
+    const repeatable = !!shared || (!config && customPoses.length === 0 && !viewSettings.mirroredTwins);
+    setRunInfo({ seed, difficulty: runDifficulty, code: repeatable ? seedCode(seed, runDifficulty) : null, daily: !!shared?.daily });
+    setDifficulty(runDifficulty);
+    resetRun(runDifficulty, seed, config?.rules);
+    runWallsRef.current = [];
+    setPreviousBest(null);
+    setLastRecording(null);
+    highlightRecorderRef.current?.cancel();
+    highlightRecorderRef.current = saveHighlights && overlayCanvasRef.current ? createHighlightRecorder(overlayCanvasRef.current) : null;
+    if (highlightRecorderRef.current) setVideoExtension(highlightRecorderRef.current.extension);
+    clearGallery(gallery);
+    setGallery(EMPTY_GALLERY);
+    const { playlist, ...rules } = config?.rules ?? {};
+    recordingRef.current = createRecording(getAspectRatio() ?? 4 / 3, runDifficulty, viewSettings, calibrationRef.current ?? undefined, seed, config ? rules : undefined);
+    recordingStartRef.current = performance.now();
+    if (videoRef.current && videoSourceRef.current) rewindVideoFile(videoRef.current, videoSourceRef.current);
+    startMusic();
     nextRound();
   };
 
-  const handleJudging = async () => {
-    setGameState(GameState.JUDGING);
-    
-    // OFFLINE EVALUATION: Use the current landmarks instead of Gemini API
-    const landmarks = lastPoseResults.current?.poseLandmarks;
-    
-    // Small artificial delay to show "Analyzing" screen for UX
-    setTimeout(() => {
-      if (currentPose) {
-        const result = evaluatePoseOffline(landmarks, currentPose);
+  const applyGameConfig = (config: SessionConfig) => {
+    setGameConfig(config);
+    setConfigError(null);
+    setIsConfigLinkCopied(false);
+    if (config.difficulty) setDifficulty(config.difficulty);
+    if (config.judge) setJudgeMode(config.judge);
+  };
+
+  const loadGameConfig = async (file: File) => {
+    try {
+      applyGameConfig(parseGameConfig(await file.text(), withMirroredTwins([...POSES, ...customPoses])));
+    } catch (err: any) {
+      setConfigError(errorText(err, t));
+    }
+  };
+
+  const removeGameConfig = () => {
+    setGameConfig(null);
+    // Drop the config from the address too, so a reload doesn't bring it back
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  const copyConfigLink = () => {
+    if (!gameConfig) return;
+    navigator.clipboard?.writeText(configUrl(gameConfig.source))
+      .then(() => setIsConfigLinkCopied(true))
+      .catch(err => console.error("Clipboard Error:", err));
+  };
+
+  // A config link opens the game already set up
+  useEffect(() => {
+    try {
+      const json = configFromUrl();
+      if (json) applyGameConfig(parseGameConfig(json, withMirroredTwins([...POSES, ...customPoses])));
+    } catch (err: any) {
+      setConfigError(errorText(err, t));
+    }
+  }, []);
+
+  // Runs `start` once the player is measured; the measurement is kept for later runs
+  const withCalibration = (start: () => void) => {
+    if (calibrationRef.current) {
+      start();
+      return;
+    }
+    pendingStartRef.current = start;
+    setGameState(GameState.CALIBRATING);
+  };
+
+  const recalibrate = () => {
+    calibrationRef.current = null;
+    setCalibration(null);
+    pendingStartRef.current = null;
+    setGameState(GameState.CALIBRATING);
+  };
+
+  const cancelCalibration = () => {
+    pendingStartRef.current = null;
+    setGameState(GameState.START);
+  };
+
+  // Applies combo points, lives and level progress for a judged wall
+  const applyWallResult = (result: MatchResult, onBeat = false): RunState => {
+    const run = judgeWall(runStateRef.current, result, onBeat);
+    syncRun(run);
+    return run;
+  };
+
+  const startRoutine = (scheduled: ScheduledRoutine) => {
+    resetRun(difficulty);
+    setRoutine(scheduled);
+    setRoutineResults([]);
+    setRoutineElapsed(0);
+    setRoutineError(null);
+    if (videoRef.current && videoSourceRef.current) rewindVideoFile(videoRef.current, videoSourceRef.current);
+    routineFramesRef.current = [];
+    routineStartRef.current = performance.now();
+    setGameState(GameState.ROUTINE);
+  };
+
+  const loadRoutine = async (file: File) => {
+    try {
+      const scheduled = parseRoutine(await file.text(), withMirroredTwins([...POSES, ...customPoses]));
+      withCalibration(() => startRoutine({
+        ...scheduled,
+        steps: scheduled.steps.map(step => ({ ...step, pose: applyHandedness(step.pose, viewSettings) }))
+      }));
+    } catch (err: any) {
+      setRoutineError(errorText(err, t));
+    }
+  };
+
+  const exitRoutine = () => {
+    routineFramesRef.current = null;
+    setGameState(GameState.START);
+  };
+
+  const beginWorkout = (scheduled: ScheduledWorkout) => {
+    const progress = startWorkout(performance.now());
+    setWorkout(scheduled);
+    setWorkoutError(null);
+    if (videoRef.current && videoSourceRef.current) rewindVideoFile(videoRef.current, videoSourceRef.current);
+    workoutFramesRef.current = [];
+    workoutProgressRef.current = progress;
+    setWorkoutProgress(progress);
+    setWorkoutClock(progress.phaseStartedAt);
+    setGameState(GameState.WORKOUT);
+  };
+
+  const loadWorkout = async (file: File) => {
+    try {
+      const scheduled = parseWorkout(await file.text());
+      withCalibration(() => beginWorkout(scheduled));
+    } catch (err: any) {
+      setWorkoutError(errorText(err, t));
+    }
+  };
+
+  const skipWorkoutSet = () => {
+    const progress = workoutProgressRef.current;
+    if (!workout || !progress) return;
+    const next = skipWorkoutPhase(workout, progress, performance.now());
+    workoutProgressRef.current = next;
+    setWorkoutProgress(next);
+  };
+
+  const exitWorkout = () => {
+    workoutFramesRef.current = null;
+    workoutProgressRef.current = null;
+    setGameState(GameState.START);
+  };
+
+  // Steps the replay clock: feeds recorded frames to the overlay and replays
+  // recorded game events, judging each wall from the recording itself.
+  const replayTick = useCallback(() => {
+    const replay = replayRef.current;
+    if (!replay) return;
+    const { recording } = replay;
+    const t = performance.now() - replay.startedAt;
+
+    while (replay.frameIndex + 1 < recording.frames.length && recording.frames[replay.frameIndex + 1].t <= t) {
+      replay.frameIndex++;
+      const frame = recording.frames[replay.frameIndex];
+      const replayed = { t: replay.startedAt + frame.t, landmarks: frame.landmarks };
+      lastPoseResults.current = { poseLandmarks: frame.landmarks };
+      displayFramesRef.current = advanceDisplay(displayFramesRef.current, replayed, performance.now());
+      pushFrame(poseFramesRef.current, replayed);
+    }
+
+    while (replay.eventIndex < recording.events.length && recording.events[replay.eventIndex].t <= t) {
+      const event = recording.events[replay.eventIndex++];
+      if (event.type === 'round-start') {
+        replay.roundPose = event.pose;
+        replay.roundStart = event.t;
+        replay.roundDuration = event.durationMs;
+        replay.roundThreshold = event.threshold;
+        setCurrentPose(resolvePose(recording, event.pose));
+        setLastResult(null);
+        setLastOutcome(null);
+        setRecordedResult(null);
+        setWallMs(event.durationMs);
+        setTimeLeft(event.durationMs);
+        setGameState(GameState.PLAYING);
+      } else if (event.type === 'judge' && replay.roundPose) {
+        const result = rescoreJudgement(recording, replay.roundPose, event.t, replay.roundThreshold);
         setLastResult(result);
-        
-        // Save photo if enabled and pose matched
-        if (result.matched && savePhotos && videoRef.current) {
-          capturePhoto(currentPose.name);
-        }
-        
-        if (result.matched) {
-          setScore(prev => prev + result.score);
-        } else {
-          setLives(prev => prev - 1);
-        }
+        setJudgedLandmarks(recording.frames[frameIndexAt(recording, event.t)]?.landmarks ?? null);
+        setRecordedResult(event.result);
+        // Replays end when the recorded game did, whatever the re-scored lives say
+        applyWallResult(result, event.onBeat);
         setGameState(GameState.RESULT);
+      } else if (event.type === 'game-over') {
+        setGameState(GameState.GAMEOVER);
       }
-    }, 800);
+    }
+
+    if (gameStateRef.current === GameState.PLAYING) {
+      const remaining = Math.max(0, replay.roundDuration - (t - replay.roundStart));
+      const stepped = Math.ceil(remaining / 100) * 100;
+      if (stepped !== timeLeftRef.current) setTimeLeft(stepped);
+    }
+
+    const lastFrame = recording.frames[recording.frames.length - 1];
+    const finished = replay.eventIndex >= recording.events.length && (!lastFrame || t >= lastFrame.t);
+    if (finished) {
+      replayRef.current = null;
+      setIsReplaying(false);
+      return;
+    }
+    replayLoopRef.current = requestAnimationFrame(replayTick);
+  }, []);
+
+  const startReplay = async (file: File) => {
+    try {
+      const recording = parseRecording(await file.text());
+      recordingRef.current = null;
+      poseFramesRef.current = [];
+      lastPoseResults.current = null;
+      displayFramesRef.current = EMPTY_DISPLAY;
+      setReplayError(null);
+      setDifficulty(recording.difficulty ?? 'normal');
+      resetRun(recording.difficulty ?? 'normal', recording.seed, recording.rules);
+      setIsReplaying(true);
+      replayRef.current = {
+        recording,
+        startedAt: performance.now(),
+        frameIndex: -1,
+        eventIndex: 0,
+        roundPose: null,
+        roundStart: 0,
+        roundDuration: 0
+      };
+      replayLoopRef.current = requestAnimationFrame(replayTick);
+    } catch (err: any) {
+      setReplayError(errorText(err, t));
+    }
+  };
+
+  const stopReplay = () => {
+    if (replayLoopRef.current) cancelAnimationFrame(replayLoopRef.current);
+    replayRef.current = null;
+    lastPoseResults.current = null;
+    displayFramesRef.current = EMPTY_DISPLAY;
+    setIsReplaying(false);
+    setGameState(GameState.START);
+  };
+
+  const downloadRecording = () => {
+    if (!lastRecording) return;
+    const blob = new Blob([serializeRecording(lastRecording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `neural-pulse-session-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
-  const capturePhoto = (poseName: string) => {
-    if (!videoRef.current || !canvasRef.current) return;
+  const handleJudging = async () => {
+    runStateRef.current = beginJudging(runStateRef.current);
+    setGameState(runStateRef.current.phase);
+    
+    if (!currentPose) return;
+
+    // Judge the frames held up to the deadline with the selected judge
+    const now = performance.now();
+    const options = {
+      aspectRatio: getAspectRatio(),
+      calibration: calibrationRef.current ?? undefined,
+      threshold: roundThresholdRef.current
+    };
+    setJudgedLandmarks(poseFramesRef.current[poseFramesRef.current.length - 1]?.landmarks ?? null);
+    const highlights = highlightRecorderRef.current;
+    // Photos only need the canvas, so they're kept even where clips can't be recorded
+    const frozen = saveHighlights && overlayCanvasRef.current ? freezeFrame(overlayCanvasRef.current) : null;
+    const clip = highlights?.endWall() ?? Promise.resolve(null);
+
+    // With music, striking the pose on a beat earns a bonus
+    const analysis = trackAnalysisRef.current;
+    const arrival = analysis && musicSourceRef.current
+      ? firstMatchTime(poseFramesRef.current, currentPose, wallStartRef.current, now, options)
+      : null;
+    const onBeat = analysis !== null && arrival !== null && isOnBeat(analysis, songTime() - (performance.now() - arrival) / 1000);
+
+    const [result] = await Promise.all([
+      createJudge(judgeMode).judge({
+        pose: currentPose,
+        frames: poseFramesRef.current,
+        now,
+        options,
+        captureImage: captureJudgeImage,
+        view: viewSettings,
+        feedbackLanguage: LANGUAGES.find(entry => entry.id === language)?.englishName
+      }),
+      // Small artificial delay to show "Analyzing" screen for UX
+      new Promise(resolve => setTimeout(resolve, 800))
+    ]);
+    if (recordingRef.current) {
+      recordEvent(recordingRef.current, {
+        t: now - recordingStartRef.current,
+        type: 'judge',
+        poseId: currentPose.id,
+        result,
+        onBeat
+      });
+    }
+
+    setLastResult(result);
+    runWallsRef.current.push({ poseId: currentPose.id, poseName: currentPose.name, matched: result.matched, score: result.score });
+    
+    // Matched walls get a photo; every wall gets a clip
+    const shownName = poseText(currentPose, t).name;
+    if (result.matched && frozen) {
+      captureSnapshot(frozen, shownName, result.score)
+        .then(blob => setGallery(prev => addSnapshot(prev, { poseName: shownName, score: result.score, blob })))
+        .catch(err => console.error("Snapshot Error:", err));
+    }
+    clip
+      .then(blob => blob && setGallery(prev => addClip(prev, { poseName: shownName, matched: result.matched, score: result.score, blob })))
+      .catch(err => console.error("Clip Recording Error:", err));
     
+    setGameState(applyWallResult(result, onBeat).phase);
+  };
+
+  // JPEG of the current camera frame, oriented as on screen, for the cloud judge
+  const captureJudgeImage = (): string | null => {
     const video = videoRef.current;
     const canvas = canvasRef.current;
+    if (!video || !canvas || replayRef.current || video.readyState < 2) return null;
     const ctx = canvas.getContext('2d');
-    
-    if (!ctx) return;
-    
-    // Set canvas size to match video
+    if (!ctx) return null;
+
     canvas.width = video.videoWidth;
     canvas.height = video.videoHeight;
-    
-    // Draw current video frame (mirrored)
     ctx.save();
-    ctx.translate(canvas.width, 0);
-    ctx.scale(-1, 1);
+    if (viewSettings.mirrorDisplay) {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
     ctx.restore();
-    
-    // Convert to blob and download
-    canvas.toBlob((blob) => {
-      if (blob) {
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `neural-pulse-${poseName}-${Date.now()}.jpg`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-      }
-    }, 'image/jpeg', 0.9);
+    return canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
   };
 
   useEffect(() => {
-    if (gameState === GameState.PLAYING) {
+    const deadline = wallDeadlineRef.current;
+    if (gameState === GameState.PLAYING && !replayRef.current && deadline !== null) {
+      // Judge exactly on the beat; the interval only drives the countdown bar
+      const judgeTimeout = window.setTimeout(handleJudging, Math.max(0, deadline - performance.now()));
+      timerRef.current = window.setInterval(() => {
+        setTimeLeft(Math.max(0, Math.ceil((deadline - performance.now()) / 100) * 100));
+      }, 100);
+      return () => {
+        clearTimeout(judgeTimeout);
+        if (timerRef.current) clearInterval(timerRef.current);
+      };
+    }
+    if (gameState === GameState.PLAYING && !replayRef.current) {
       timerRef.current = window.setInterval(() => {
         setTimeLeft(prev => {
           if (prev <= 100) {
@@ -302,10 +994,179 @@ const App: React.FC = () => {
   }, [gameState, currentPose]);
 
   useEffect(() => {
-    if (lives <= 0 && gameState !== GameState.GAMEOVER && gameState !== GameState.START) {
-      setGameState(GameState.GAMEOVER);
+    if (gameState === GameState.GAMEOVER || gameState === GameState.START) stopMusic();
+  }, [gameState]);
+
+  // Pose names are read out as they come up, for players too far away to read them
+  const speechLang = LANGUAGES.find(entry => entry.id === language)!.speechLang;
+  useEffect(() => {
+    if (gameState === GameState.PLAYING && currentPose) getSound().announce(poseText(currentPose, t).name, speechLang);
+  }, [gameState, currentPose]);
+
+  const routineStepIndex = routine ? stepIndexAt(routine, routineElapsed) : -1;
+  useEffect(() => {
+    const step = routine?.steps[routineStepIndex];
+    if (gameState === GameState.ROUTINE && step) getSound().announce(poseText(step.pose, t).name, speechLang);
+  }, [gameState, routine, routineStepIndex]);
+
+  const workoutSet = workout && workoutProgress?.phase === 'work' ? workout.sets[workoutProgress.setIndex] : null;
+  useEffect(() => {
+    if (gameState === GameState.WORKOUT && workoutSet) getSound().announce(t.exercises[workoutSet.exercise].name, speechLang);
+  }, [gameState, workoutSet]);
+
+  // Anything that judges poses waits for both the picture and the model
+  const canPlay = isCameraReady && isTrackerReady;
+
+  // Beeps over the wall's last three seconds
+  useEffect(() => {
+    const cue = gameState === GameState.PLAYING ? countdownCue(previousTimeLeftRef.current, timeLeft) : null;
+    previousTimeLeftRef.current = timeLeft;
+    if (cue) getSound().play(cue);
+  }, [gameState, timeLeft]);
+
+  useEffect(() => {
+    if (gameState === GameState.RESULT && lastResult) getSound().play(lastResult.matched ? 'match' : 'miss');
+  }, [gameState, lastResult]);
+
+  useEffect(() => {
+    const last = routineResults[routineResults.length - 1];
+    if (last) getSound().play(last.result.matched ? 'match' : 'miss');
+  }, [routineResults]);
+
+  useEffect(() => {
+    if (gameState === GameState.GAMEOVER) getSound().play('game-over');
+  }, [gameState]);
+
+  // The reel is finalized once the run is over
+  useEffect(() => {
+    const highlights = highlightRecorderRef.current;
+    if (gameState !== GameState.GAMEOVER || !highlights) return;
+    highlightRecorderRef.current = null;
+    setIsAssemblingReel(true);
+    highlights.finish()
+      .then(reel => setGallery(prev => ({ ...prev, reel })))
+      .catch(err => console.error("Reel Recording Error:", err))
+      .finally(() => setIsAssemblingReel(false));
+  }, [gameState]);
+
+  // A different player has a different build, so their measurements start over
+  useEffect(() => {
+    calibrationRef.current = null;
+    setCalibration(null);
+  }, [activeProfileId]);
+
+  // Calibration: waits for good framing, then measures the player over a still hold
+  useEffect(() => {
+    if (gameState !== GameState.CALIBRATING) return;
+    let holdStart: number | null = null;
+    setFraming(null);
+    setCalibrationProgress(0);
+    const id = window.setInterval(() => {
+      const check = checkFraming(lastPoseResults.current?.poseLandmarks);
+      setFraming(check);
+      const now = performance.now();
+      if (!check.ready) {
+        holdStart = null;
+        setCalibrationProgress(0);
+        return;
+      }
+      if (holdStart === null) holdStart = now;
+      setCalibrationProgress(Math.min(1, (now - holdStart) / CALIBRATION_HOLD_MS));
+      if (now - holdStart < CALIBRATION_HOLD_MS) return;
+
+      const from = holdStart;
+      const measured = measureBody(poseFramesRef.current.filter(frame => frame.t >= from), getAspectRatio() ?? 4 / 3);
+      if (!measured) {
+        holdStart = null;
+        return;
+      }
+      clearInterval(id);
+      calibrationRef.current = measured;
+      setCalibration(measured);
+      const start = pendingStartRef.current;
+      pendingStartRef.current = null;
+      if (start) start();
+      else setGameState(GameState.START);
+    }, 100);
+    return () => clearInterval(id);
+  }, [gameState]);
+
+  // Routine clock: scores each step as its hold ends and finishes after the last one
+  useEffect(() => {
+    if (gameState !== GameState.ROUTINE || !routine) return;
+    let scored = 0;
+    const id = window.setInterval(() => {
+      const elapsed = performance.now() - routineStartRef.current;
+      setRoutineElapsed(elapsed);
+      while (scored < routine.steps.length && elapsed >= routine.steps[scored].endMs) {
+        const step = routine.steps[scored++];
+        const frames = routineFramesRef.current ?? [];
+        const stepResult = scoreStep(frames, step, routineStartRef.current, {
+          aspectRatio: getAspectRatio(),
+          calibration: calibrationRef.current ?? undefined
+        });
+        // The next step only looks at frames from its own start onwards
+        routineFramesRef.current = frames.filter(frame => frame.t >= routineStartRef.current + step.endMs);
+        setRoutineResults(prev => [...prev, stepResult]);
+        setScore(prev => prev + stepResult.score);
+      }
+      if (scored >= routine.steps.length) {
+        clearInterval(id);
+        routineFramesRef.current = null;
+        setGameState(GameState.ROUTINE_SUMMARY);
+      }
+    }, 100);
+    return () => clearInterval(id);
+  }, [gameState, routine]);
+
+  // Workout tick: feeds new frames to the current set, ends rests and finishes after the last set
+  useEffect(() => {
+    if (gameState !== GameState.WORKOUT || !workout) return;
+    let restLeft = Infinity;
+    const id = window.setInterval(() => {
+      const now = performance.now();
+      const progress = workoutProgressRef.current;
+      if (!progress) return;
+      const options = { aspectRatio: getAspectRatio(), calibration: calibrationRef.current ?? undefined };
+      let next = (workoutFramesRef.current?.splice(0) ?? [])
+        .reduce((current, frame) => advanceWorkout(workout, current, frame, options), progress);
+      next = tickWorkout(workout, next, now);
+      setWorkoutClock(now);
+
+      if (next.reps > progress.reps && next.setIndex === progress.setIndex) getSound().play('tick');
+      const finished = next.results[next.results.length - 1];
+      if (next.results.length > progress.results.length && finished.completed) getSound().play('match');
+      // The rest ends with the same countdown as a wall
+      const left = next.phase === 'rest' ? workout.sets[next.setIndex].restMs - (now - next.phaseStartedAt) : Infinity;
+      const cue = countdownCue(restLeft, left);
+      restLeft = left;
+      if (cue) getSound().play(cue);
+
+      if (next !== progress) {
+        workoutProgressRef.current = next;
+        setWorkoutProgress(next);
+      }
+      if (next.phase === 'done') {
+        clearInterval(id);
+        workoutFramesRef.current = null;
+        setGameState(GameState.WORKOUT_SUMMARY);
+      }
+    }, 100);
+    return () => clearInterval(id);
+  }, [gameState, workout]);
+
+  useEffect(() => {
+    if (gameState === GameState.GAMEOVER && recordingRef.current) {
+      recordEvent(recordingRef.current, {
+        t: performance.now() - recordingStartRef.current,
+        type: 'game-over',
+        score
+      });
+      setLastRecording(recordingRef.current);
+      recordingRef.current = null;
+      saveRun(score);
     }
-  }, [lives, gameState]);
+  }, [gameState, score]);
 
   return (
     <div className="relative w-full h-screen overflow-hidden flex flex-col items-center justify-center text-white font-sans selection:bg-cyan-500 bg-slate-950">
@@ -323,12 +1184,27 @@ const App: React.FC = () => {
               className="absolute inset-0 w-full h-full object-cover z-10"
             />
             <div className="scanner-line"></div>
-            {cameraError && (
+            {cameraError && !isReplaying && (
               <div className="absolute inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-8 text-center">
                 <div className="text-6xl mb-4">📷🚫</div>
-                <h3 className="text-2xl font-black text-rose-500 mb-2">СБОЙ КАМЕРЫ</h3>
+                <h3 className="text-2xl font-black text-rose-500 mb-2">{t.camera.failed}</h3>
                 <p className="text-slate-400 mb-6">{cameraError}</p>
-                <button onClick={() => window.location.reload()} className="px-8 py-3 bg-white text-black font-black rounded-xl">ПОВТОРИТЬ</button>
+                <button onClick={() => setSourceAttempt(n => n + 1)} className="px-8 py-3 bg-white text-black font-black rounded-xl">{t.camera.retry}</button>
+              </div>
+            )}
+            {isTrackerFailed && !cameraError && (
+              <div className="absolute inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-8 text-center">
+                <div className="text-6xl mb-4">🧠🚫</div>
+                <h3 className="text-2xl font-black text-rose-500 mb-2">{t.camera.trackerFailed}</h3>
+                <p className="text-slate-400 mb-6">{t.camera.trackerHint}</p>
+                <button onClick={() => window.location.reload()} className="px-8 py-3 bg-white text-black font-black rounded-xl">{t.camera.retry}</button>
+              </div>
+            )}
+            {isCameraLost && !cameraError && !isReplaying && (
+              <div className="absolute inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-8 text-center">
+                <div className="text-6xl mb-4 animate-pulse">🔌</div>
+                <h3 className="text-2xl font-black text-rose-500 mb-2">{t.camera.lost}</h3>
+                <p className="text-slate-400">{t.camera.lostHint}</p>
               </div>
             )}
           </div>
@@ -338,28 +1214,44 @@ const App: React.FC = () => {
           {/* Полоска прибытия стены поверх поля по центру сверху */}
           <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-slate-900/60 backdrop-blur-xl px-6 py-3 rounded-2xl border border-white/10 shadow-xl z-20">
             <div className="flex items-center gap-4">
-              <span className="text-[10px] uppercase tracking-widest text-cyan-400 font-black">Прибытие стены</span>
+              <span className="text-[10px] uppercase tracking-widest text-cyan-400 font-black">{t.hud.wallArrival}</span>
               <div className="w-32 h-2 bg-slate-800/50 rounded-full overflow-hidden border border-white/10 p-[1px]">
                 <div 
                   className={`h-full rounded-full transition-all duration-100 ease-linear ${timeLeft < 1500 ? 'bg-rose-500 shadow-[0_0_10px_#f43f5e]' : 'bg-cyan-500 shadow-[0_0_12px_#06b6d4]'}`}
-                  style={{ width: `${(timeLeft / GAME_DURATION) * 100}%` }}
+                  style={{ width: `${(timeLeft / wallMs) * 100}%` }}
                 ></div>
               </div>
             </div>
           </div>
 
+          {isReplaying && (
+            <div className="absolute top-4 left-4 bg-slate-900/60 backdrop-blur-xl px-4 py-3 rounded-2xl border border-white/10 shadow-xl z-[110] flex items-center gap-3">
+              <div className="w-2 h-2 rounded-full bg-rose-500 animate-pulse"></div>
+              <span className="text-[10px] uppercase tracking-widest text-rose-400 font-black">{t.hud.replay}</span>
+              <button onClick={stopReplay} className="text-[10px] uppercase tracking-widest text-slate-400 hover:text-white font-black">{t.hud.stop}</button>
+            </div>
+          )}
+
           {/* Счёт слева внизу */}
           <div className="absolute bottom-4 left-4 bg-slate-900/60 backdrop-blur-xl px-4 py-3 rounded-2xl border border-white/10 shadow-xl z-20">
             <div className="flex flex-col items-center">
-              <span className="text-[10px] uppercase tracking-widest text-cyan-400 font-black mb-1">Счёт</span>
+              <span className="text-[10px] uppercase tracking-widest text-cyan-400 font-black mb-1">{t.hud.score}</span>
               <span className="text-3xl font-black tabular-nums leading-none">{score}</span>
             </div>
           </div>
 
+          {/* Уровень и комбо над счётом */}
+          <div className="absolute bottom-24 left-4 bg-slate-900/60 backdrop-blur-xl px-4 py-2 rounded-2xl border border-white/10 shadow-xl z-20 flex items-center gap-3">
+            <span className="text-[10px] uppercase tracking-widest text-cyan-400 font-black">{t.hud.level(levelForWalls(DIFFICULTIES[difficulty], wallsCleared))}</span>
+            {streak > 1 && (
+              <span className="text-[10px] uppercase tracking-widest text-yellow-400 font-black">{t.hud.combo(comboMultiplier(streak).toFixed(2))}</span>
+            )}
+          </div>
+
           {/* Единицы целостности справа внизу */}
           <div className="absolute bottom-4 right-4 bg-slate-900/60 backdrop-blur-xl px-4 py-3 rounded-2xl border border-white/10 shadow-xl z-20">
             <div className="flex gap-2.5">
-              {[...Array(3)].map((_, i) => (
+              {[...Array(Math.max(runMaxLives(runStateRef.current), lives))].map((_, i) => (
                 <div key={i} className={`w-5 h-5 rounded-full border border-white/20 transition-all duration-700 ${i < lives ? 'bg-rose-500 shadow-[0_0_15px_rgba(244,63,94,0.8)]' : 'bg-slate-800 scale-75 opacity-30'}`}></div>
               ))}
             </div>
@@ -368,87 +1260,448 @@ const App: React.FC = () => {
           {gameState === GameState.PLAYING && (
              <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-30">
                 <div 
-                  className="wall-animation flex flex-col items-center justify-center bg-yellow-400/5 border-[12px] border-yellow-400/60 rounded-[60px] backdrop-blur-[1px]"
+                  className="wall-animation flex flex-col items-center justify-between py-8 bg-yellow-400/5 border-[12px] border-yellow-400/60 rounded-[60px]"
                   style={{ 
                     width: '60%', 
                     height: '80%', 
-                    animationDuration: `${GAME_DURATION}ms`,
+                    animationDuration: `${wallMs}ms`,
                     boxShadow: '0 0 80px rgba(250,204,21,0.2), inset 0 0 60px rgba(250,204,21,0.15)'
                   }}
                 >
-                  <div className="text-[120px] mb-8 drop-shadow-[0_0_30px_rgba(250,204,21,1)] filter brightness-125">{currentPose?.icon}</div>
-                  <div className="text-5xl font-black uppercase text-white drop-shadow-2xl text-center px-10 tracking-tighter">
-                    {currentPose?.name}
+                  {/* Name and a small diagram on top; the hole itself is cut into the camera view */}
+                  <div className="flex items-center gap-4 px-6 py-3 bg-black/60 rounded-3xl">
+                    <div className="text-5xl drop-shadow-[0_0_30px_rgba(250,204,21,1)]">{currentPose?.icon}</div>
+                    <div className="text-3xl font-black uppercase text-white drop-shadow-2xl tracking-tighter">
+                      {currentPose && poseText(currentPose, t).name}
+                    </div>
+                    {currentPose && (
+                      <SkeletonPreview
+                        skeleton={currentPose.definition.reference ?? buildReferenceSkeleton(currentPose.definition)}
+                        width={48}
+                        height={60}
+                        color="#facc15"
+                        mirrored={viewSettings.mirrorDisplay}
+                      />
+                    )}
                   </div>
-                  <div className="mt-6 px-8 py-3 bg-black/60 rounded-full border border-yellow-400/30 text-[10px] font-black tracking-[0.4em] text-yellow-400">
-                    ТРЕБУЕТСЯ СОВПАДЕНИЕ
+                  <div className="flex flex-col items-center gap-2">
+                    {currentPose && isAsymmetric(currentPose.definition) && (
+                      <div className="px-4 py-1 bg-black/60 rounded-full text-xs text-slate-300">
+                        {poseText(currentPose, t).description} <span className="text-yellow-400">({viewSettings.sides === 'screen' ? t.hud.sidesScreen : t.hud.sidesAnatomical})</span>
+                      </div>
+                    )}
+                    <div className="px-8 py-3 bg-black/60 rounded-full border border-yellow-400/30 text-[10px] font-black tracking-[0.4em] text-yellow-400">
+                      {t.hud.fitSilhouette}
+                    </div>
                   </div>
                 </div>
              </div>
           )}
 
+          {gameState === GameState.ROUTINE && routine && (
+            <>
+              <RoutineHud routine={routine} elapsedMs={routineElapsed} lastStep={routineResults[routineResults.length - 1] ?? null} />
+              <button
+                onClick={exitRoutine}
+                className="absolute top-4 left-4 bg-slate-900/60 backdrop-blur-xl px-4 py-3 rounded-2xl border border-white/10 shadow-xl z-[110] text-[10px] uppercase tracking-widest text-slate-400 hover:text-white font-black"
+              >
+                {t.hud.stop}
+              </button>
+            </>
+          )}
+
+          {gameState === GameState.ROUTINE_SUMMARY && routine && (
+            <RoutineSummary
+              routine={routine}
+              results={routineResults}
+              onRetry={() => startRoutine(routine)}
+              onClose={exitRoutine}
+            />
+          )}
+
+          {gameState === GameState.WORKOUT && workout && workoutProgress && (
+            <>
+              <WorkoutHud workout={workout} progress={workoutProgress} now={workoutClock} onSkip={skipWorkoutSet} />
+              <button
+                onClick={exitWorkout}
+                className="absolute top-4 left-4 bg-slate-900/60 backdrop-blur-xl px-4 py-3 rounded-2xl border border-white/10 shadow-xl z-[110] text-[10px] uppercase tracking-widest text-slate-400 hover:text-white font-black"
+              >
+                {t.hud.stop}
+              </button>
+            </>
+          )}
+
+          {gameState === GameState.WORKOUT_SUMMARY && workout && workoutProgress && (
+            <WorkoutSummary
+              workout={workout}
+              results={workoutProgress.results}
+              onRetry={() => beginWorkout(workout)}
+              onClose={exitWorkout}
+            />
+          )}
+
+          {gameState === GameState.CALIBRATING && (
+            <CalibrationOverlay check={framing} progress={calibrationProgress} onCancel={cancelCalibration} />
+          )}
+
           {gameState === GameState.START && (
-            <div className="absolute inset-0 bg-slate-950/95 backdrop-blur-3xl flex flex-col items-center justify-center text-center p-12 z-[60]">
-              <div className="w-24 h-24 bg-cyan-500 rounded-3xl rotate-12 mb-8 flex items-center justify-center text-5xl shadow-[0_0_40px_rgba(6,182,212,0.5)]">🤸</div>
+            <div className="absolute inset-0 bg-slate-950/95 backdrop-blur-3xl flex flex-col items-center text-center p-12 z-[60] overflow-y-auto">
+              <div className="mt-auto shrink-0 w-24 h-24 bg-cyan-500 rounded-3xl rotate-12 mb-8 flex items-center justify-center text-5xl shadow-[0_0_40px_rgba(6,182,212,0.5)]">🤸</div>
               <h1 className="text-7xl font-black mb-6 tracking-tighter">NEURAL<br/><span className="text-cyan-400">PULSE</span></h1>
-              <p className="text-slate-400 max-w-lg mb-8 text-lg leading-relaxed">Система инициализирована. Совпадайте позы с высокой точностью. Теперь с 100% офлайн нейронной обработкой.</p>
+              <p className="text-slate-400 max-w-lg mb-8 text-lg leading-relaxed">{t.start.tagline}</p>
+
+              <div className="mb-6 flex items-center gap-3 bg-white/5 rounded-2xl p-2 pl-4 border border-white/10">
+                <span className="text-sm font-medium text-slate-300">🌐 {t.language}</span>
+                {LANGUAGES.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setLanguage(option.id)}
+                    className={`px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                      language === option.id
+                        ? 'bg-cyan-500 text-white'
+                        : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              <ProfilePanel
+                profiles={profiles}
+                activeProfileId={activeProfileId}
+                stats={profileStats}
+                highScores={highScores}
+                onSelect={id => refreshProfiles(id)}
+                onCreate={addProfile}
+              />
               
               <div className="mb-6 flex items-center gap-4 bg-white/5 rounded-2xl p-4 border border-white/10">
                 <button 
-                  onClick={() => setSavePhotos(!savePhotos)}
-                  className={`relative w-16 h-8 rounded-full transition-colors duration-300 ${savePhotos ? 'bg-cyan-500' : 'bg-slate-600'}`}
+                  onClick={() => setSaveHighlights(!saveHighlights)}
+                  className={`relative w-16 h-8 rounded-full transition-colors duration-300 ${saveHighlights ? 'bg-cyan-500' : 'bg-slate-600'}`}
                 >
-                  <div className={`absolute top-1 w-6 h-6 bg-white rounded-full transition-transform duration-300 ${savePhotos ? 'translate-x-8' : 'translate-x-1'}`}></div>
+                  <div className={`absolute top-1 w-6 h-6 bg-white rounded-full transition-transform duration-300 ${saveHighlights ? 'translate-x-8' : 'translate-x-1'}`}></div>
                 </button>
                 <span className="text-sm font-medium text-slate-300">
-                  {savePhotos ? '📸 Фото ВКЛ' : '📷 Фото ВЫКЛ'}
+                  {saveHighlights ? t.start.highlightsOn : t.start.highlightsOff}
                 </span>
               </div>
 
+              <SourcePicker
+                cameras={cameras}
+                camera={cameraSettings}
+                videoFile={videoFile}
+                onCameraChange={setCameraSettings}
+                onVideoFile={setVideoFile}
+              />
+              
+              <div className="mb-8 bg-white/5 rounded-2xl p-4 border border-white/10">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-sm font-medium text-slate-300">{t.start.mirror}</span>
+                  <button
+                    onClick={() => setViewSettings({ ...viewSettings, mirrorDisplay: !viewSettings.mirrorDisplay })}
+                    className={`relative w-12 h-6 rounded-full transition-colors duration-300 ${viewSettings.mirrorDisplay ? 'bg-cyan-500' : 'bg-slate-600'}`}
+                  >
+                    <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform duration-300 ${viewSettings.mirrorDisplay ? 'translate-x-7' : 'translate-x-1'}`}></div>
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { sides: 'anatomical', label: t.start.sidesAnatomical },
+                    { sides: 'screen', label: t.start.sidesScreen }
+                  ] as const).map(option => (
+                    <button
+                      key={option.sides}
+                      onClick={() => setViewSettings({ ...viewSettings, sides: option.sides })}
+                      className={`px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                        viewSettings.sides === option.sides
+                          ? 'bg-cyan-500 text-white'
+                          : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <label className="mt-3 flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={viewSettings.mirroredTwins}
+                    onChange={e => setViewSettings({ ...viewSettings, mirroredTwins: e.target.checked })}
+                  />
+                  {t.start.mirroredTwins}
+                </label>
+              </div>
+
+              {gameConfig ? (
+                <div className="mb-8 bg-cyan-500/10 rounded-2xl p-4 border border-cyan-400/30 w-full max-w-md">
+                  <div className="flex items-center justify-between gap-3 mb-2">
+                    <span className="text-sm font-medium text-slate-300">{t.config.title}</span>
+                    <div className="flex gap-3">
+                      <button onClick={copyConfigLink} className="text-[10px] uppercase font-black text-slate-400 hover:text-white">
+                        {isConfigLinkCopied ? t.config.copied : t.config.copyLink}
+                      </button>
+                      <button onClick={removeGameConfig} className="text-[10px] uppercase font-black text-slate-400 hover:text-white">
+                        {t.config.remove}
+                      </button>
+                    </div>
+                  </div>
+                  <div className="text-lg font-black text-white">{gameConfig.name ?? t.config.untitled}</div>
+                  <div className="text-xs text-cyan-400">
+                    {[
+                      gameConfig.rules.playlist && `${t.config.poses(gameConfig.rules.playlist.length)}, ${gameConfig.rules.shuffle ? t.config.shuffled : t.config.inOrder}`,
+                      gameConfig.rules.walls && t.config.walls(gameConfig.rules.walls),
+                      `❤️ ${gameConfig.rules.lives ?? DIFFICULTIES[difficulty].startingLives}`,
+                      gameConfig.rules.wallMs && `⏱ ${t.seconds(gameConfig.rules.wallMs / 1000)}`,
+                      gameConfig.judge && t.judgeModes[gameConfig.judge]
+                    ].filter(Boolean).join(' · ')}
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => configInputRef.current?.click()}
+                  className="mb-6 px-6 py-3 bg-white/5 hover:bg-white/10 rounded-2xl border border-white/10 text-sm font-medium text-slate-300"
+                >
+                  {t.config.load}
+                </button>
+              )}
+              <input
+                ref={configInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) loadGameConfig(file);
+                  e.target.value = '';
+                }}
+              />
+              {configError && <p className="-mt-4 mb-6 text-rose-400 text-sm">{configError}</p>}
+
+              <div className="mb-8 bg-white/5 rounded-2xl p-4 border border-white/10">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-sm font-medium text-slate-300">{t.start.difficulty}</span>
+                  <span className="text-xs text-cyan-400">❤️ {DIFFICULTIES[difficulty].startingLives} · ⏱ {t.seconds(DIFFICULTIES[difficulty].baseWallMs / 1000)}</span>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {Object.values(DIFFICULTIES).map(preset => (
+                    <button
+                      key={preset.id}
+                      onClick={() => setDifficulty(preset.id)}
+                      className={`px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                        difficulty === preset.id
+                          ? 'bg-cyan-500 text-white'
+                          : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                      }`}
+                    >
+                      {t.difficulties[preset.id]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               <div className="mb-8 bg-white/5 rounded-2xl p-4 border border-white/10">
                 <div className="flex items-center justify-between mb-3">
-                  <span className="text-sm font-medium text-slate-300">🎥 Разрешение камеры</span>
-                  <span className="text-xs text-cyan-400">{cameraResolution.width}x{cameraResolution.height}</span>
+                  <span className="text-sm font-medium text-slate-300">{t.start.judge}</span>
+                  {judgeMode !== 'offline' && !isGeminiConfigured() && (
+                    <span className="text-xs text-amber-400">{t.start.judgeNoKey}</span>
+                  )}
                 </div>
                 <div className="grid grid-cols-3 gap-2">
-                  {[
-                    { width: 424, height: 240, label: 'Низкое' },
-                    { width: 640, height: 480, label: 'Стандарт' },
-                    { width: 1280, height: 720, label: 'HD' }
-                  ].map((res) => (
+                  {JUDGE_MODES.map(({ mode }) => (
                     <button
-                      key={`${res.width}x${res.height}`}
-                      onClick={() => setCameraResolution({ width: res.width, height: res.height })}
+                      key={mode}
+                      onClick={() => setJudgeMode(mode)}
                       className={`px-3 py-2 rounded-lg text-xs font-medium transition-all ${
-                        cameraResolution.width === res.width && cameraResolution.height === res.height
+                        judgeMode === mode
                           ? 'bg-cyan-500 text-white'
                           : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
                       }`}
                     >
-                      {res.label}
+                      {t.judgeModes[mode]}
                     </button>
                   ))}
                 </div>
               </div>
+
+              <div className="mb-8 bg-white/5 rounded-2xl p-4 border border-white/10 w-full max-w-md">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm font-medium text-slate-300">{t.start.music}</span>
+                  {track ? (
+                    <span className="flex items-center gap-2 min-w-0 text-xs text-cyan-400">
+                      <span className="truncate">{track.name}</span>
+                      <span className="shrink-0">{Math.round(track.analysis.bpm)} BPM</span>
+                      <button onClick={removeTrack} className="shrink-0 text-slate-500 hover:text-white">✕</button>
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => trackInputRef.current?.click()}
+                      disabled={isAnalyzingTrack}
+                      className="px-3 py-2 rounded-lg text-xs font-medium bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-50"
+                    >
+                      {isAnalyzingTrack ? t.start.analyzingTrack : t.start.loadTrack}
+                    </button>
+                  )}
+                </div>
+                {track && <p className="mt-2 text-[11px] text-slate-500 text-left">{t.start.beatHint(ON_BEAT_BONUS * 100)}</p>}
+                {trackError && <p className="mt-2 text-xs text-rose-400 text-left">{trackError}</p>}
+                <input
+                  ref={trackInputRef}
+                  type="file"
+                  accept="audio/*"
+                  className="hidden"
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) loadTrack(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+
+              <div className="mb-8 bg-white/5 rounded-2xl p-4 border border-white/10 w-full max-w-md">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm font-medium text-slate-300">{audioSettings.muted ? t.start.soundOff : t.start.sound}</span>
+                  <button
+                    onClick={() => setAudioSettings({ ...audioSettings, muted: !audioSettings.muted })}
+                    className={`relative w-12 h-6 rounded-full transition-colors duration-300 ${audioSettings.muted ? 'bg-slate-600' : 'bg-cyan-500'}`}
+                  >
+                    <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform duration-300 ${audioSettings.muted ? 'translate-x-1' : 'translate-x-7'}`}></div>
+                  </button>
+                </div>
+                <div className="mt-3 flex items-center gap-3">
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(audioSettings.volume * 100)}
+                    disabled={audioSettings.muted}
+                    onChange={e => setAudioSettings({ ...audioSettings, volume: Number(e.target.value) / 100 })}
+                    className="flex-1 disabled:opacity-30"
+                  />
+                  <span className="text-xs text-cyan-400 tabular-nums w-10 text-right">{Math.round(audioSettings.volume * 100)}%</span>
+                </div>
+                <label className="mt-3 flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={audioSettings.announcePoses}
+                    onChange={e => setAudioSettings({ ...audioSettings, announcePoses: e.target.checked })}
+                  />
+                  {t.start.announcePoses}
+                </label>
+              </div>
+
+              <button
+                onClick={() => setGameState(GameState.STUDIO)}
+                disabled={!canPlay}
+                className="mb-6 px-6 py-3 bg-white/5 hover:bg-white/10 disabled:opacity-30 rounded-2xl border border-white/10 text-sm font-medium text-slate-300"
+              >
+                {t.start.studio} {customPoses.length > 0 && <span className="text-cyan-400">({customPoses.length})</span>}
+              </button>
+
+              <button
+                onClick={() => replayInputRef.current?.click()}
+                className="mb-6 px-6 py-3 bg-white/5 hover:bg-white/10 rounded-2xl border border-white/10 text-sm font-medium text-slate-300"
+              >
+                {t.start.replay}
+              </button>
+              <input
+                ref={replayInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) startReplay(file);
+                  e.target.value = '';
+                }}
+              />
+              {replayError && <p className="-mt-4 mb-6 text-rose-400 text-sm">{replayError}</p>}
+
+              <button
+                onClick={() => routineInputRef.current?.click()}
+                disabled={!canPlay}
+                className="mb-6 px-6 py-3 bg-white/5 hover:bg-white/10 disabled:opacity-30 rounded-2xl border border-white/10 text-sm font-medium text-slate-300"
+              >
+                {t.start.routine}
+              </button>
+              <input
+                ref={routineInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) loadRoutine(file);
+                  e.target.value = '';
+                }}
+              />
+              {routineError && <p className="-mt-4 mb-6 text-rose-400 text-sm">{routineError}</p>}
+
+              <button
+                onClick={() => workoutInputRef.current?.click()}
+                disabled={!canPlay}
+                className="mb-6 px-6 py-3 bg-white/5 hover:bg-white/10 disabled:opacity-30 rounded-2xl border border-white/10 text-sm font-medium text-slate-300"
+              >
+                {t.start.workout}
+              </button>
+              <input
+                ref={workoutInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) loadWorkout(file);
+                  e.target.value = '';
+                }}
+              />
+              {workoutError && <p className="-mt-4 mb-6 text-rose-400 text-sm">{workoutError}</p>}
+
+              <button
+                onClick={recalibrate}
+                disabled={!canPlay}
+                className="mb-6 px-6 py-3 bg-white/5 hover:bg-white/10 disabled:opacity-30 rounded-2xl border border-white/10 text-sm font-medium text-slate-300"
+              >
+                {calibration ? t.start.recalibrate : t.start.calibrate}
+              </button>
               
+              <SeedPanel
+                dailyKey={dailyKey()}
+                disabled={!canPlay}
+                onDaily={() => withCalibration(() => startGame({ seed: dailySeed(), difficulty: DAILY_DIFFICULTY, daily: true }))}
+                onSeed={(seed, seedDifficulty) => withCalibration(() => startGame({ seed, difficulty: seedDifficulty }))}
+              />
+
               <button 
-                onClick={startGame}
-                disabled={!isCameraReady}
-                className="group relative px-16 py-6 bg-white text-slate-950 font-black rounded-2xl text-2xl transition-all hover:scale-105 active:scale-95 disabled:opacity-30 overflow-hidden"
+                onClick={() => withCalibration(startGame)}
+                disabled={!canPlay}
+                className="mb-auto shrink-0 group relative px-16 py-6 bg-white text-slate-950 font-black rounded-2xl text-2xl transition-all hover:scale-105 active:scale-95 disabled:opacity-30 overflow-hidden"
               >
-                <span className="relative z-10">{isCameraReady ? "АКТИВИРОВАТЬ СИСТЕМУ" : "УСТАНОВКА СВЯЗИ..."}</span>
+                <span className="relative z-10">{canPlay ? t.start.activate : t.start.connecting}</span>
                 <div className="absolute inset-0 bg-cyan-400 translate-y-full group-hover:translate-y-0 transition-transform duration-300"></div>
               </button>
             </div>
           )}
 
+          {gameState === GameState.STUDIO && (
+            <PoseStudio
+              poses={customPoses}
+              getFrames={getPoseFrames}
+              aspectRatio={getAspectRatio()}
+              mirrored={viewSettings.mirrorDisplay}
+              onChange={setCustomPoses}
+              onClose={() => setGameState(GameState.START)}
+            />
+          )}
+
           {gameState === GameState.JUDGING && (
             <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-xl flex flex-col items-center justify-center z-[60]">
               <div className="relative">
                 <div className="w-24 h-24 border-4 border-cyan-500/20 rounded-full animate-ping"></div>
                 <div className="absolute inset-0 w-24 h-24 border-t-4 border-cyan-400 rounded-full animate-spin"></div>
               </div>
-              <p className="mt-8 font-black text-2xl uppercase tracking-[0.5em] text-cyan-400">АНАЛИЗ ПОЗЫ...</p>
+              <p className="mt-8 font-black text-2xl uppercase tracking-[0.5em] text-cyan-400">{t.judging}</p>
             </div>
           )}
 
@@ -457,39 +1710,123 @@ const App: React.FC = () => {
               <div className="bg-slate-900/95 border-2 border-white/10 p-10 rounded-[40px] shadow-2xl backdrop-blur-2xl flex flex-col items-center text-center w-full max-w-md animate-in fade-in zoom-in duration-300">
                  <div className="text-7xl mb-6">{lastResult?.matched ? '🎯' : '⚠️'}</div>
                  <h2 className={`text-5xl font-black mb-4 ${lastResult?.matched ? 'text-green-400' : 'text-rose-500'}`}>
-                   {lastResult?.matched ? 'СОВПАДЕНИЕ' : 'РАССИНХРОН'}
+                   {lastResult?.matched ? t.result.match : t.result.miss}
                  </h2>
-                 <p className="text-slate-400 mb-8 text-lg">{lastResult?.feedback}</p>
-                 <div className="flex gap-4 w-full">
+                 <p className="text-slate-400 mb-6 text-lg">{lastResult && feedbackText(lastResult, currentPose, t)}</p>
+                 {judgedLandmarks && lastResult?.deviations && (
+                   <PoseCorrection
+                     landmarks={judgedLandmarks}
+                     deviations={lastResult.deviations}
+                     aspectRatio={replayRef.current?.recording.aspectRatio ?? getAspectRatio()}
+                     mirrored={viewSettings.mirrorDisplay}
+                   />
+                 )}
+                 <div className="grid grid-cols-2 gap-3 w-full">
+                   <div className="flex-1 bg-white/5 rounded-2xl p-4">
+                     <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">{t.result.accuracy}</div>
+                     <div className="text-2xl font-black">{lastResult?.score || 0}%</div>
+                   </div>
+                   <div className="flex-1 bg-white/5 rounded-2xl p-4">
+                     <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">{t.result.hold}</div>
+                     <div className="text-2xl font-black">{t.seconds(((lastResult?.holdMs || 0) / 1000).toFixed(1))}</div>
+                   </div>
+                   <div className="flex-1 bg-white/5 rounded-2xl p-4">
+                     <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">{t.result.stability}</div>
+                     <div className="text-2xl font-black">{Math.round((lastResult?.stability || 0) * 100)}%</div>
+                   </div>
                    <div className="flex-1 bg-white/5 rounded-2xl p-4">
-                     <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">Набор</div>
-                     <div className="text-2xl font-black">+{lastResult?.score || 0}</div>
+                     <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">{t.result.gained}</div>
+                     <div className="text-2xl font-black">+{lastOutcome?.points || 0}</div>
                    </div>
+                   {lastResult?.balance !== undefined && (
+                     <div className="col-span-2 bg-white/5 rounded-2xl p-4">
+                       <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">{t.result.balance}</div>
+                       <div className="text-2xl font-black">{Math.round(lastResult.balance * 100)}%</div>
+                     </div>
+                   )}
                  </div>
-                 <button 
-                     onClick={nextRound}
-                   className="mt-8 w-full py-5 bg-cyan-500 hover:bg-cyan-400 text-white font-black rounded-2xl text-xl transition-all shadow-lg"
-                 >
-                   ПРОДОЛЖИТЬ
-                 </button>
+                 {lastOutcome && lastOutcome.multiplier > 1 && (
+                   <p className="mt-4 text-yellow-400 font-black text-sm uppercase tracking-widest">{t.result.combo(lastOutcome.multiplier.toFixed(2))}</p>
+                 )}
+                 {lastOutcome?.onBeat && (
+                   <p className="mt-2 text-fuchsia-400 font-black text-sm uppercase tracking-widest">{t.result.onBeat(ON_BEAT_BONUS * 100)}</p>
+                 )}
+                 {lastOutcome?.bonusLife && (
+                   <p className="mt-2 text-rose-400 font-black text-sm uppercase tracking-widest">{t.result.bonusLife}</p>
+                 )}
+                 {isReplaying ? (
+                   <p className="mt-8 text-xs uppercase tracking-widest text-slate-500">
+                     {t.result.recorded(Boolean(recordedResult?.matched), recordedResult?.score ?? 0)}
+                   </p>
+                 ) : (
+                   <button 
+                       onClick={nextRound}
+                     className="mt-8 w-full py-5 bg-cyan-500 hover:bg-cyan-400 text-white font-black rounded-2xl text-xl transition-all shadow-lg"
+                   >
+                     {t.result.continue}
+                   </button>
+                 )}
               </div>
             </div>
           )}
 
           {gameState === GameState.GAMEOVER && (
-            <div className="absolute inset-0 bg-slate-950 flex flex-col items-center justify-center z-[100] animate-in slide-in-from-bottom duration-700">
-               <div className="text-rose-500 font-mono text-sm mb-4 animate-pulse">ОШИБКА: СТРУКТУРНЫЙ СБОЙ</div>
-               <h2 className="text-8xl font-black text-white mb-8 tracking-tighter">РАССИНХРОН</h2>
-               <div className="text-center mb-16">
-                 <div className="text-slate-500 text-xs uppercase font-black mb-1">Индекс производительности</div>
+            <div className="absolute inset-0 bg-slate-950 flex flex-col items-center z-[100] overflow-y-auto p-8 animate-in slide-in-from-bottom duration-700">
+               {lives > 0 ? (
+                 <div className="mt-auto text-cyan-400 font-mono text-sm mb-4">{t.gameOver.complete}</div>
+               ) : (
+                 <div className="mt-auto text-rose-500 font-mono text-sm mb-4 animate-pulse">{t.gameOver.error}</div>
+               )}
+               <h2 className="text-8xl font-black text-white mb-8 tracking-tighter">{lives > 0 ? t.gameOver.completeTitle : t.gameOver.title}</h2>
+               <div className="text-center mb-8">
+                 <div className="text-slate-500 text-xs uppercase font-black mb-1">{t.gameOver.performance}</div>
                  <div className="text-7xl font-black">{score}</div>
+                 {previousBest !== null && score > previousBest && (
+                   <div className="mt-2 text-yellow-400 font-black text-sm uppercase tracking-widest">{t.gameOver.newBest}</div>
+                 )}
                </div>
+               {!isReplaying && profileStats && (
+                 <div className="mb-10 w-full max-w-md">
+                   <div className="text-slate-500 text-[10px] uppercase font-black mb-2 text-center">
+                     {t.gameOver.weakPoses(profiles.find(profile => profile.id === activeProfileId)?.name ?? '')}
+                   </div>
+                   <PlayerStats stats={profileStats} />
+                 </div>
+               )}
+               {!isReplaying && runInfo?.code && (
+                 <div className="mb-8 flex items-center gap-3 bg-white/5 rounded-2xl px-4 py-3 border border-white/10">
+                   <span className="text-slate-500 text-[10px] uppercase font-black">{runInfo.daily ? t.gameOver.daily(dailyKey()) : t.gameOver.runCode}</span>
+                   <span className="font-mono font-black text-cyan-400">{runInfo.code}</span>
+                   <button
+                     onClick={() => navigator.clipboard?.writeText(runInfo.code!).catch(err => console.error("Clipboard Error:", err))}
+                     className="text-[10px] uppercase font-black text-slate-400 hover:text-white"
+                   >
+                     {t.gameOver.copy}
+                   </button>
+                   <button
+                     onClick={() => withCalibration(() => startGame({ seed: runInfo.seed, difficulty: runInfo.difficulty, daily: runInfo.daily }))}
+                     className="text-[10px] uppercase font-black text-slate-400 hover:text-white"
+                   >
+                     {t.gameOver.repeat}
+                   </button>
+                 </div>
+               )}
+               {!isReplaying && <SessionGallery gallery={gallery} assemblingReel={isAssemblingReel} videoExtension={videoExtension} />}
                <button 
-                 onClick={startGame}
+                 onClick={() => withCalibration(startGame)}
                  className="px-20 py-6 bg-rose-600 hover:bg-rose-500 text-white font-black rounded-3xl text-3xl shadow-2xl transition-all hover:scale-105"
                >
-                 ПЕРЕЗАГРУЗКА
+                 {t.gameOver.restart}
                </button>
+               {lastRecording && (
+                 <button
+                   onClick={downloadRecording}
+                   className="mt-6 px-6 py-3 bg-white/5 hover:bg-white/10 rounded-2xl border border-white/10 text-sm font-medium text-slate-300"
+                 >
+                   {t.gameOver.saveRecording}
+                 </button>
+               )}
+               <div className="mb-auto" />
             </div>
           )}
         </div>
@@ -498,15 +1835,15 @@ const App: React.FC = () => {
            <div className="flex items-center gap-6">
              <div className="flex items-center gap-2">
                <div className={`w-2 h-2 rounded-full ${isTracking ? 'bg-green-500 animate-pulse' : 'bg-rose-500'}`}></div>
-               <span className="text-[9px] uppercase font-black tracking-widest text-slate-500">Нейросвязь</span>
+               <span className="text-[9px] uppercase font-black tracking-widest text-slate-500">{t.footer.neuralLink}</span>
              </div>
              <div className="flex items-center gap-2">
                <div className={`w-2 h-2 rounded-full ${isCameraReady ? 'bg-green-500' : 'bg-slate-700'}`}></div>
-               <span className="text-[9px] uppercase font-black tracking-widest text-slate-500">ОФЛАЙН РЕЖИМ</span>
+               <span className="text-[9px] uppercase font-black tracking-widest text-slate-500">{judgeMode === 'offline' ? t.footer.offline : t.footer.cloud}</span>
              </div>
            </div>
            <div className="text-slate-600 text-[9px] font-bold uppercase tracking-widest">
-             CORE: LOCAL_HEURISTICS_V1 // СТАТУС: БЕЗОПАСНО
+             CORE: {JUDGE_MODES.find(j => j.mode === judgeMode)?.core} // {t.footer.status}
            </div>
         </div>
       </div>
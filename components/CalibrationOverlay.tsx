@@ -0,0 +1,58 @@
+import React from 'react';
+import { LandmarkName } from '../types';
+import { FramingCheck } from '../services/calibration';
+import { Messages, useI18n } from '../i18n';
+
+interface CalibrationOverlayProps {
+  check: FramingCheck | null;
+  // Share of the required hold already done, 0 to 1.
+  progress: number;
+  onCancel: () => void;
+}
+
+type BodyPart = keyof Messages['calibration']['bodyParts'];
+
+const BODY_PART: Partial<Record<LandmarkName, BodyPart>> = {
+  nose: 'head',
+  leftElbow: 'leftArm',
+  leftWrist: 'leftArm',
+  rightElbow: 'rightArm',
+  rightWrist: 'rightArm',
+  leftKnee: 'leftLeg',
+  leftAnkle: 'leftLeg',
+  rightKnee: 'rightLeg',
+  rightAnkle: 'rightLeg'
+};
+
+/**
+ * Guides the player into full-body framing before a run and shows how long
+ * they still have to stand still for the measurement.
+ */
+const CalibrationOverlay: React.FC<CalibrationOverlayProps> = ({ check, progress, onCancel }) => {
+  const { t } = useI18n();
+  const hiddenParts = check?.issue === 'joints-hidden'
+    ? Array.from(new Set<BodyPart>(check.missing.flatMap(joint => BODY_PART[joint] ?? []))).map(part => t.calibration.bodyParts[part])
+    : [];
+  const message = check?.ready ? t.calibration.ready : t.calibration.issues[check?.issue ?? 'no-body'];
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 flex flex-col items-center gap-4 p-8 z-[60] bg-gradient-to-t from-slate-950/95 to-transparent">
+      <div className="text-cyan-400 font-mono text-sm">{t.calibration.title}</div>
+      <div className={`text-5xl font-black tracking-tighter ${check?.ready ? 'text-green-400' : 'text-white'}`}>{message}</div>
+      {hiddenParts.length > 0 && (
+        <p className="text-slate-400 text-sm">{t.calibration.hidden(hiddenParts.join(', '))}</p>
+      )}
+      <p className="text-slate-500 text-sm max-w-md text-center">
+        {t.calibration.hint}
+      </p>
+      <div className="w-64 h-2 bg-slate-800/50 rounded-full overflow-hidden border border-white/10 p-[1px]">
+        <div className="h-full rounded-full bg-green-500 transition-all duration-100 ease-linear" style={{ width: `${progress * 100}%` }}></div>
+      </div>
+      <button onClick={onCancel} className="px-6 py-3 bg-white/5 hover:bg-white/10 rounded-2xl border border-white/10 text-sm font-medium text-slate-300">
+        {t.calibration.cancel}
+      </button>
+    </div>
+  );
+};
+
+export default CalibrationOverlay;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { ProfileStats } from '../services/profileStore';
+import { poseName, useI18n } from '../i18n';
+
+interface PlayerStatsProps {
+  stats: ProfileStats;
+  // Number of per-pose rows, weakest poses first.
+  limit?: number;
+}
+
+const PlayerStats: React.FC<PlayerStatsProps> = ({ stats, limit = 5 }) => {
+  const { t } = useI18n();
+  if (stats.sessions === 0) {
+    return <p className="text-sm text-slate-500">{t.stats.empty}</p>;
+  }
+
+  return (
+    <div className="w-full flex flex-col gap-3">
+      <div className="grid grid-cols-3 gap-2">
+        {[
+          { label: t.stats.sessions, value: stats.sessions },
+          { label: t.stats.best, value: stats.bestScore },
+          { label: t.stats.walls, value: stats.totalWalls }
+        ].map(({ label, value }) => (
+          <div key={label} className="bg-white/5 rounded-xl p-3">
+            <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">{label}</div>
+            <div className="text-xl font-black">{value}</div>
+          </div>
+        ))}
+      </div>
+      {stats.poses.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] uppercase text-slate-500">
+              <th className="text-left font-bold pb-1">{t.stats.pose}</th>
+              <th className="text-right font-bold pb-1">{t.stats.success}</th>
+              <th className="text-right font-bold pb-1">{t.stats.average}</th>
+              <th className="text-right font-bold pb-1">{t.stats.progress}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.poses.slice(0, limit).map(pose => (
+              <tr key={pose.poseId} className="border-t border-white/5">
+                <td className="text-left py-1 text-slate-300">{poseName(pose.poseId, pose.poseName, t)} <span className="text-slate-600">×{pose.attempts}</span></td>
+                <td className="text-right py-1">{Math.round(pose.successRate * 100)}%</td>
+                <td className="text-right py-1">{pose.averageScore}%</td>
+                <td className={`text-right py-1 font-bold ${pose.improvement > 0 ? 'text-green-400' : pose.improvement < 0 ? 'text-rose-400' : 'text-slate-500'}`}>
+                  {pose.improvement > 0 ? '▲' : pose.improvement < 0 ? '▼' : '•'} {Math.abs(pose.improvement)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default PlayerStats;
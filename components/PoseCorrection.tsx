@@ -0,0 +1,51 @@
+import React, { useMemo } from 'react';
+import { Landmark, JointDeviation } from '../types';
+import { toBodySkeleton } from '../services/poseService';
+import SkeletonPreview from './SkeletonPreview';
+import { Messages, useI18n } from '../i18n';
+
+interface PoseCorrectionProps {
+  // The frame the wall was judged on.
+  landmarks: Landmark[];
+  deviations: JointDeviation[];
+  aspectRatio?: number;
+  mirrored?: boolean;
+  // Instructions shown, largest errors first.
+  limit?: number;
+}
+
+const describeDeviation = (deviation: JointDeviation, t: Messages) =>
+  t.correction.deviation(
+    t.correction.joints[deviation.joint] ?? deviation.joint,
+    deviation.degrees,
+    t.correction.directions[deviation.direction]
+  );
+
+/**
+ * Frozen skeleton from the judged frame with the joints that missed marked in red.
+ */
+const PoseCorrection: React.FC<PoseCorrectionProps> = ({ landmarks, deviations, aspectRatio, mirrored, limit = 3 }) => {
+  const { t } = useI18n();
+  const skeleton = useMemo(() => toBodySkeleton(landmarks, aspectRatio), [landmarks, aspectRatio]);
+  const shown = deviations.slice(0, limit);
+  const highlight = useMemo(() => shown.map(deviation => deviation.joint), [deviations, limit]);
+
+  if (!skeleton) return null;
+
+  return (
+    <div className="flex items-center gap-4 w-full bg-white/5 rounded-2xl p-3 mb-6">
+      <SkeletonPreview skeleton={skeleton} width={96} height={120} highlight={highlight} mirrored={mirrored} />
+      <ul className="flex-1 text-left text-sm space-y-1">
+        {shown.length === 0 ? (
+          <li className="text-green-400">{t.correction.allGood}</li>
+        ) : (
+          shown.map(deviation => (
+            <li key={deviation.limb} className="text-rose-300">• {describeDeviation(deviation, t)}</li>
+          ))
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default PoseCorrection;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Pose, PoseFrame, Skeleton } from '../types';
+import { framesInWindow } from '../services/poseWindow';
+import { averageSkeleton, createCustomPose, exportPosePack, importPosePack, PoseDraft } from '../services/poseLibrary';
+import SkeletonPreview from './SkeletonPreview';
+import { useI18n, errorText } from '../i18n';
+
+interface PoseStudioProps {
+  poses: Pose[];
+  getFrames: () => PoseFrame[];
+  aspectRatio?: number;
+  mirrored?: boolean;
+  onChange: (poses: Pose[]) => void;
+  onClose: () => void;
+}
+
+const COUNTDOWN_SECONDS = 3;
+// Frames averaged into the reference once the countdown ends.
+const CAPTURE_MS = 1500;
+
+const PoseStudio: React.FC<PoseStudioProps> = ({ poses, getFrames, aspectRatio, mirrored, onChange, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<PoseDraft>({ name: '', icon: '⭐', description: '', tolerance: 25 });
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [reference, setReference] = useState<Skeleton | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown > 0) {
+      const id = window.setTimeout(() => setCountdown(countdown - 1), 1000);
+      return () => clearTimeout(id);
+    }
+    // Countdown finished: keep still while the capture window fills up.
+    const id = window.setTimeout(() => {
+      const frames = framesInWindow(getFrames(), performance.now(), CAPTURE_MS);
+      const skeleton = averageSkeleton(frames, aspectRatio);
+      setCountdown(null);
+      if (skeleton) {
+        setReference(skeleton);
+        setError(null);
+      } else {
+        setError(t.studio.bodyNotFound);
+      }
+    }, CAPTURE_MS);
+    return () => clearTimeout(id);
+  }, [countdown, getFrames, aspectRatio, t]);
+
+  const savePose = () => {
+    if (!reference || !draft.name.trim()) return;
+    onChange([...poses, createCustomPose({ ...draft, name: draft.name.trim() }, reference)]);
+    setReference(null);
+    setDraft({ ...draft, name: '', description: '' });
+  };
+
+  const exportPack = () => {
+    const blob = new Blob([exportPosePack(poses, 'Neural Pulse Poses')], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `neural-pulse-poses-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const importPack = async (file: File) => {
+    try {
+      const imported = importPosePack(await file.text(), poses);
+      onChange([...poses, ...imported]);
+      setError(null);
+    } catch (err: any) {
+      setError(errorText(err, t));
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl flex items-start justify-center z-[60] overflow-y-auto p-8">
+      <div className="w-full max-w-3xl flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-4xl font-black tracking-tighter">{t.studio.title} <span className="text-cyan-400">{t.studio.titleAccent}</span></h2>
+          <button onClick={onClose} className="px-6 py-3 bg-white/10 hover:bg-white/20 rounded-xl font-black text-sm">{t.studio.back}</button>
+        </div>
+
+        <div className="bg-white/5 rounded-2xl p-6 border border-white/10 flex gap-6">
+          <div className="flex-1 flex flex-col gap-3">
+            <div className="flex gap-3">
+              <input
+                value={draft.icon}
+                onChange={e => setDraft({ ...draft, icon: e.target.value })}
+                className="w-16 bg-slate-800 rounded-lg px-3 py-2 text-2xl text-center"
+                maxLength={4}
+              />
+              <input
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                placeholder={t.studio.name}
+                className="flex-1 bg-slate-800 rounded-lg px-3 py-2"
+              />
+            </div>
+            <textarea
+              value={draft.description}
+              onChange={e => setDraft({ ...draft, description: e.target.value })}
+              placeholder={t.studio.description}
+              className="bg-slate-800 rounded-lg px-3 py-2 h-20 resize-none"
+            />
+            <label className="flex items-center gap-3 text-sm text-slate-300">
+              {t.studio.tolerance}
+              <input
+                type="range"
+                min={10}
+                max={45}
+                value={draft.tolerance}
+                onChange={e => setDraft({ ...draft, tolerance: Number(e.target.value) })}
+                className="flex-1"
+              />
+              <span className="text-cyan-400 tabular-nums w-10">{draft.tolerance}°</span>
+            </label>
+            <div className="flex gap-3 mt-2">
+              <button
+                onClick={() => setCountdown(COUNTDOWN_SECONDS)}
+                disabled={countdown !== null}
+                className="flex-1 py-3 bg-cyan-500 hover:bg-cyan-400 disabled:opacity-40 rounded-xl font-black"
+              >
+                {countdown === null ? t.studio.capture : countdown > 0 ? t.studio.holdStill(countdown) : t.studio.recording}
+              </button>
+              <button
+                onClick={savePose}
+                disabled={!reference || !draft.name.trim()}
+                className="flex-1 py-3 bg-white text-slate-950 disabled:opacity-30 rounded-xl font-black"
+              >
+                {t.studio.save}
+              </button>
+            </div>
+            {error && <p className="text-rose-400 text-sm">{error}</p>}
+          </div>
+          <div className="w-40 h-52 bg-black/40 rounded-xl flex items-center justify-center">
+            {reference ? <SkeletonPreview skeleton={reference} mirrored={mirrored} /> : <span className="text-slate-600 text-xs">{t.studio.noReference}</span>}
+          </div>
+        </div>
+
+        <div className="bg-white/5 rounded-2xl p-6 border border-white/10">
+          <div className="flex items-center justify-between mb-4">
+            <span className="text-sm font-medium text-slate-300">{t.studio.myPoses(poses.length)}</span>
+            <div className="flex gap-2">
+              <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-xs font-medium">{t.studio.import}</button>
+              <button onClick={exportPack} disabled={poses.length === 0} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-30 rounded-lg text-xs font-medium">{t.studio.export}</button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) importPack(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {poses.map(pose => (
+              <div key={pose.id} className="flex items-center gap-3 bg-slate-800/60 rounded-xl p-3">
+                <span className="text-3xl">{pose.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="font-black truncate">{pose.name}</div>
+                  <div className="text-xs text-slate-400 truncate">{pose.description}</div>
+                </div>
+                <button onClick={() => onChange(poses.filter(p => p.id !== pose.id))} className="text-rose-400 hover:text-rose-300 text-xs font-black">{t.studio.remove}</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PoseStudio;
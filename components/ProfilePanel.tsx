@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Profile, HighScore, ProfileStats } from '../services/profileStore';
+import PlayerStats from './PlayerStats';
+import { useI18n } from '../i18n';
+
+interface ProfilePanelProps {
+  profiles: Profile[];
+  activeProfileId: string | null;
+  stats: ProfileStats | null;
+  highScores: HighScore[];
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+}
+
+const ProfilePanel: React.FC<ProfilePanelProps> = ({ profiles, activeProfileId, stats, highScores, onSelect, onCreate }) => {
+  const { t } = useI18n();
+  const [newName, setNewName] = useState('');
+
+  const createProfile = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+  };
+
+  return (
+    <div className="mb-8 w-full max-w-md bg-white/5 rounded-2xl p-4 border border-white/10 flex flex-col gap-4 text-left">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-300">{t.profiles.player}</span>
+        <select
+          value={activeProfileId ?? ''}
+          onChange={e => onSelect(e.target.value)}
+          className="bg-slate-700 text-slate-100 rounded-lg px-3 py-1 text-xs"
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && createProfile()}
+          placeholder={t.profiles.newPlayer}
+          maxLength={24}
+          className="flex-1 bg-slate-800 rounded-lg px-3 py-2 text-xs text-slate-100 placeholder:text-slate-500"
+        />
+        <button
+          onClick={createProfile}
+          disabled={!newName.trim()}
+          className="px-3 py-2 rounded-lg text-xs font-medium bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-30"
+        >
+          {t.profiles.add}
+        </button>
+      </div>
+
+      {stats && <PlayerStats stats={stats} limit={3} />}
+
+      {highScores.length > 0 && (
+        <div>
+          <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">{t.profiles.highScores}</div>
+          <ol className="text-xs">
+            {highScores.map((entry, i) => (
+              <li key={`${entry.playedAt}-${i}`} className="flex justify-between border-t border-white/5 py-1">
+                <span className="text-slate-300">{i + 1}. {entry.profileName} <span className="text-slate-600">{t.difficulties[entry.difficulty]}</span></span>
+                <span className="font-black">{entry.score}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePanel;
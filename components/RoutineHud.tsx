@@ -0,0 +1,66 @@
+import React from 'react';
+import { ScheduledRoutine, StepResult, stepIndexAt } from '../services/choreography';
+import { Messages, poseText, useI18n } from '../i18n';
+
+interface RoutineHudProps {
+  routine: ScheduledRoutine;
+  elapsedMs: number;
+  lastStep: StepResult | null;
+}
+
+// Arrival relative to the step's target time, for the HUD and the summary
+export const formatOffset = (offsetMs: number | null, t: Messages) => {
+  if (offsetMs === null) return t.routine.notCaught;
+  if (Math.abs(offsetMs) < 100) return t.routine.onBeat;
+  return t.routine.offset(offsetMs < 0, (Math.abs(offsetMs) / 1000).toFixed(1));
+};
+
+const RoutineHud: React.FC<RoutineHudProps> = ({ routine, elapsedMs, lastStep }) => {
+  const { t } = useI18n();
+  const index = stepIndexAt(routine, elapsedMs);
+  const step = routine.steps[index];
+  const next = routine.steps[index + 1];
+  if (!step) return null;
+
+  const inTransition = elapsedMs < step.targetMs;
+  const phaseProgress = inTransition
+    ? (elapsedMs - step.startMs) / Math.max(1, step.targetMs - step.startMs)
+    : (elapsedMs - step.targetMs) / Math.max(1, step.endMs - step.targetMs);
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none z-30">
+      <div className="text-[10px] uppercase tracking-[0.4em] text-slate-400 font-black mb-4">
+        {routine.name} · {t.routine.step(index + 1, routine.steps.length)}
+      </div>
+      <div
+        className={`flex flex-col items-center justify-center border-[12px] rounded-[60px] backdrop-blur-[1px] px-16 py-10 transition-colors duration-300 ${
+          inTransition ? 'bg-cyan-400/5 border-cyan-400/40' : 'bg-yellow-400/5 border-yellow-400/60'
+        }`}
+      >
+        <div className="text-[100px] mb-4 drop-shadow-[0_0_30px_rgba(250,204,21,1)]">{step.pose.icon}</div>
+        <div className="text-4xl font-black uppercase text-white drop-shadow-2xl text-center tracking-tighter">{poseText(step.pose, t).name}</div>
+        <div className={`mt-6 px-8 py-3 bg-black/60 rounded-full text-[10px] font-black tracking-[0.4em] ${inTransition ? 'text-cyan-400' : 'text-yellow-400'}`}>
+          {inTransition ? t.routine.transition : t.routine.hold}
+        </div>
+        <div className="mt-4 w-64 h-2 bg-slate-800/50 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full ${inTransition ? 'bg-cyan-500' : 'bg-yellow-400'}`}
+            style={{ width: `${Math.min(1, phaseProgress) * 100}%` }}
+          ></div>
+        </div>
+      </div>
+      {next && (
+        <div className="mt-4 text-xs uppercase tracking-widest text-slate-400 font-black">
+          {t.routine.next} {next.pose.icon} {poseText(next.pose, t).name}
+        </div>
+      )}
+      {lastStep && (
+        <div className={`mt-4 px-6 py-2 rounded-2xl bg-slate-900/70 text-sm font-black ${lastStep.result.matched ? 'text-green-400' : 'text-rose-400'}`}>
+          {poseText(lastStep.pose, t).name}: {lastStep.score} · {formatOffset(lastStep.arrivalOffsetMs, t)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoutineHud;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { ScheduledRoutine, StepResult } from '../services/choreography';
+import { formatOffset } from './RoutineHud';
+import { poseText, useI18n } from '../i18n';
+
+interface RoutineSummaryProps {
+  routine: ScheduledRoutine;
+  results: StepResult[];
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const RoutineSummary: React.FC<RoutineSummaryProps> = ({ routine, results, onRetry, onClose }) => {
+  const { t } = useI18n();
+  const total = results.reduce((sum, step) => sum + step.score, 0);
+  const average = results.length ? Math.round(total / results.length) : 0;
+  const matched = results.filter(step => step.result.matched).length;
+
+  return (
+    <div className="absolute inset-0 bg-slate-950/95 backdrop-blur-2xl flex items-start justify-center z-[100] overflow-y-auto p-8">
+      <div className="w-full max-w-2xl flex flex-col items-center gap-6 text-center">
+        <div className="text-cyan-400 font-mono text-sm">{t.routine.complete}</div>
+        <h2 className="text-6xl font-black tracking-tighter">{routine.name}</h2>
+        <div className="grid grid-cols-3 gap-3 w-full">
+          {[
+            { label: t.routine.total, value: total },
+            { label: t.routine.average, value: `${average}%` },
+            { label: t.routine.poses, value: `${matched}/${results.length}` }
+          ].map(({ label, value }) => (
+            <div key={label} className="bg-white/5 rounded-2xl p-4">
+              <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">{label}</div>
+              <div className="text-2xl font-black">{value}</div>
+            </div>
+          ))}
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] uppercase text-slate-500">
+              <th className="text-left font-bold pb-2">{t.routine.stepColumn}</th>
+              <th className="text-right font-bold pb-2">{t.routine.form}</th>
+              <th className="text-right font-bold pb-2">{t.routine.timing}</th>
+              <th className="text-right font-bold pb-2">{t.routine.points}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((step, i) => (
+              <tr key={i} className="border-t border-white/5">
+                <td className="text-left py-2">
+                  {step.pose.icon} {poseText(step.pose, t).name}
+                  {!step.result.matched && <span className="ml-2 text-rose-400 text-xs">{t.routine.missed}</span>}
+                </td>
+                <td className="text-right py-2">{step.result.score}%</td>
+                <td className="text-right py-2 text-slate-400">{formatOffset(step.arrivalOffsetMs, t)}</td>
+                <td className="text-right py-2 font-black">{step.score}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex gap-3">
+          <button onClick={onRetry} className="px-10 py-4 bg-cyan-500 hover:bg-cyan-400 text-white font-black rounded-2xl text-lg">
+            {t.routine.again}
+          </button>
+          <button onClick={onClose} className="px-10 py-4 bg-white/5 hover:bg-white/10 rounded-2xl border border-white/10 font-black text-lg text-slate-300">
+            {t.routine.menu}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoutineSummary;
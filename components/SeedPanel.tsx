@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { DifficultyId } from '../services/progression';
+import { parseSeedCode } from '../services/gameEngine';
+import { useI18n, errorText } from '../i18n';
+
+interface SeedPanelProps {
+  // Today's date as shown for the daily challenge, e.g. 2026-10-19.
+  dailyKey: string;
+  disabled: boolean;
+  onDaily: () => void;
+  onSeed: (seed: number, difficulty: DifficultyId) => void;
+}
+
+/**
+ * Start-screen block for the daily challenge and for replaying a run from a
+ * friend's seed code.
+ */
+const SeedPanel: React.FC<SeedPanelProps> = ({ dailyKey, disabled, onDaily, onSeed }) => {
+  const { t } = useI18n();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = () => {
+    try {
+      const parsed = parseSeedCode(code);
+      setError(null);
+      onSeed(parsed.seed, parsed.difficulty);
+    } catch (err: any) {
+      setError(errorText(err, t));
+    }
+  };
+
+  return (
+    <div className="mb-8 bg-white/5 rounded-2xl p-4 border border-white/10">
+      <button
+        onClick={onDaily}
+        disabled={disabled}
+        className="w-full mb-3 px-4 py-3 rounded-xl bg-yellow-400/10 hover:bg-yellow-400/20 disabled:opacity-30 border border-yellow-400/30 text-yellow-300 font-black text-sm"
+      >
+        {t.seed.daily} <span className="font-mono text-xs text-yellow-500">{dailyKey}</span>
+      </button>
+      <div className="flex gap-2">
+        <input
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && submit()}
+          placeholder={t.seed.placeholder}
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg text-xs font-mono bg-slate-700 text-slate-200 border border-white/10 uppercase placeholder:normal-case"
+        />
+        <button
+          onClick={submit}
+          disabled={disabled || !code.trim()}
+          className="px-4 py-2 rounded-lg text-xs font-black bg-cyan-500 hover:bg-cyan-400 disabled:opacity-30 text-white"
+        >
+          ▶
+        </button>
+      </div>
+      {error && <p className="mt-2 text-rose-400 text-xs">{error}</p>}
+    </div>
+  );
+};
+
+export default SeedPanel;
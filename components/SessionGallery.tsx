@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { HighlightGallery, contactSheet, downloadBlob } from '../services/highlights';
+import { useI18n, errorText } from '../i18n';
+
+interface SessionGalleryProps {
+  gallery: HighlightGallery;
+  // True while the reel is still being finalized after the run.
+  assemblingReel: boolean;
+  // File extension of the clips and the reel, e.g. "webm".
+  videoExtension: string;
+}
+
+/**
+ * Game-over block with the run's photos and wall clips, and downloads for the
+ * whole session as one reel or one contact sheet.
+ */
+const SessionGallery: React.FC<SessionGalleryProps> = ({ gallery, assemblingReel, videoExtension }) => {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+
+  const downloadSheet = async () => {
+    try {
+      const date = new Date().toLocaleDateString();
+      downloadBlob(await contactSheet(gallery.snapshots, t.gallery.sheetTitle(date)), `neural-pulse-photos-${Date.now()}.jpg`);
+      setError(null);
+    } catch (err: any) {
+      console.error("Contact Sheet Error:", err);
+      setError(errorText(err, t));
+    }
+  };
+
+  if (gallery.snapshots.length === 0 && gallery.clips.length === 0 && !gallery.reel && !assemblingReel) return null;
+
+  return (
+    <div className="mb-8 w-full max-w-2xl bg-white/5 rounded-2xl p-4 border border-white/10 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-slate-500 text-[10px] uppercase font-black">{t.gallery.title}</span>
+        <div className="flex gap-2">
+          {gallery.snapshots.length > 0 && (
+            <button onClick={downloadSheet} className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-xs font-medium">
+              {t.gallery.downloadSheet}
+            </button>
+          )}
+          <button
+            onClick={() => gallery.reel && downloadBlob(gallery.reel, `neural-pulse-highlights-${Date.now()}.${videoExtension}`)}
+            disabled={!gallery.reel}
+            className="px-3 py-2 bg-cyan-500 hover:bg-cyan-400 disabled:opacity-30 rounded-lg text-xs font-black text-white"
+          >
+            {assemblingReel ? t.gallery.assemblingReel : t.gallery.downloadReel}
+          </button>
+        </div>
+      </div>
+
+      {gallery.snapshots.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {gallery.snapshots.map(snapshot => (
+            <a key={snapshot.id} href={snapshot.url} download={`neural-pulse-${snapshot.poseName}-${snapshot.id.slice(0, 8)}.jpg`} title={snapshot.poseName}>
+              <img src={snapshot.url} alt={snapshot.poseName} className="w-full rounded-lg border border-white/10 hover:border-cyan-400" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {gallery.clips.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {gallery.clips.map(clip => (
+            <div key={clip.id} className="flex flex-col gap-1">
+              <video src={clip.url} controls muted playsInline className="w-full rounded-lg bg-black" />
+              <span className={`text-[10px] uppercase font-black truncate ${clip.matched ? 'text-green-400' : 'text-rose-400'}`}>
+                {clip.poseName} · {clip.score}%
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-rose-400 text-xs">{error}</p>}
+    </div>
+  );
+};
+
+export default SessionGallery;
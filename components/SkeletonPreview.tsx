@@ -0,0 +1,74 @@
+import React, { useEffect, useRef } from 'react';
+import { Skeleton, LandmarkName } from '../types';
+import { SKELETON_BONES } from '../services/poseService';
+
+interface SkeletonPreviewProps {
+  skeleton: Partial<Skeleton>;
+  width?: number;
+  height?: number;
+  color?: string;
+  // Joints drawn in red, along with the bones leading into them.
+  highlight?: LandmarkName[];
+  // Draw as in a mirror (the player's left on the left), or as others see them.
+  mirrored?: boolean;
+}
+
+const HIGHLIGHT_COLOR = '#f43f5e';
+const NO_JOINTS: LandmarkName[] = [];
+
+/**
+ * Draws a body-frame skeleton as the player sees it on screen.
+ */
+const SkeletonPreview: React.FC<SkeletonPreviewProps> = ({ skeleton, width = 160, height = 200, color = '#06b6d4', highlight = NO_JOINTS, mirrored = true }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+    // The body spans roughly 4.5 torso lengths from ankles to raised hands.
+    const scale = height / 4.5;
+    const toCanvas = (p: { x: number; y: number }) => ({
+      x: width / 2 + (mirrored ? -p.x : p.x) * scale,
+      y: height * 0.55 - p.y * scale
+    });
+
+    ctx.lineWidth = 4;
+    ctx.lineCap = 'round';
+    for (const [from, to] of SKELETON_BONES) {
+      const a = skeleton[from];
+      const b = skeleton[to];
+      if (!a || !b) continue;
+      const start = toCanvas(a);
+      const end = toCanvas(b);
+      ctx.strokeStyle = highlight.includes(to) ? HIGHLIGHT_COLOR : color;
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+    }
+
+    if (skeleton.nose) {
+      const head = toCanvas(skeleton.nose);
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      ctx.arc(head.x, head.y, scale * 0.25, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    ctx.fillStyle = HIGHLIGHT_COLOR;
+    for (const joint of highlight) {
+      const point = skeleton[joint];
+      if (!point) continue;
+      const { x, y } = toCanvas(point);
+      ctx.beginPath();
+      ctx.arc(x, y, 6, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }, [skeleton, width, height, color, highlight, mirrored]);
+
+  return <canvas ref={canvasRef} width={width} height={height} />;
+};
+
+export default SkeletonPreview;
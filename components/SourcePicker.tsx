@@ -0,0 +1,99 @@
+import React, { useRef } from 'react';
+import { CameraDevice, CameraSettings } from '../services/videoSource';
+import { useI18n } from '../i18n';
+
+interface SourcePickerProps {
+  cameras: CameraDevice[];
+  camera: CameraSettings;
+  // The video file playing instead of the camera, if any.
+  videoFile: File | null;
+  onCameraChange: (settings: CameraSettings) => void;
+  onVideoFile: (file: File | null) => void;
+}
+
+const RESOLUTIONS = [
+  { width: 424, height: 240, label: 'low' },
+  { width: 640, height: 480, label: 'standard' },
+  { width: 1280, height: 720, label: 'hd' }
+] as const;
+
+/**
+ * Start-screen block for choosing the camera and its resolution, or a video
+ * file to run through the pose pipeline instead.
+ */
+const SourcePicker: React.FC<SourcePickerProps> = ({ cameras, camera, videoFile, onCameraChange, onVideoFile }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="mb-8 bg-white/5 rounded-2xl p-4 border border-white/10">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-medium text-slate-300">{t.camera.source}</span>
+        <span className="text-xs text-cyan-400 truncate max-w-[50%]">
+          {videoFile ? videoFile.name : `${camera.width}x${camera.height}`}
+        </span>
+      </div>
+
+      {videoFile ? (
+        <button
+          onClick={() => onVideoFile(null)}
+          className="w-full px-3 py-2 rounded-lg text-xs font-medium bg-slate-700 text-slate-300 hover:bg-slate-600"
+        >
+          {t.camera.backToCamera}
+        </button>
+      ) : (
+        <>
+          {cameras.length > 1 && (
+            <select
+              value={camera.deviceId ?? ''}
+              onChange={e => onCameraChange({ ...camera, deviceId: e.target.value || null })}
+              className="w-full mb-2 px-3 py-2 rounded-lg text-xs bg-slate-700 text-slate-200 border border-white/10"
+            >
+              <option value="">{t.camera.defaultCamera}</option>
+              {cameras.map((device, i) => (
+                <option key={device.deviceId || i} value={device.deviceId}>
+                  {device.label || t.camera.numbered(i + 1)}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="grid grid-cols-3 gap-2">
+            {RESOLUTIONS.map(res => (
+              <button
+                key={`${res.width}x${res.height}`}
+                onClick={() => onCameraChange({ ...camera, width: res.width, height: res.height })}
+                className={`px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                  camera.width === res.width && camera.height === res.height
+                    ? 'bg-cyan-500 text-white'
+                    : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                }`}
+              >
+                {t.camera.resolutions[res.label]}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full mt-2 px-3 py-2 rounded-lg text-xs font-medium bg-slate-700 text-slate-300 hover:bg-slate-600"
+      >
+        🎞 {videoFile ? t.camera.otherVideoFile : t.camera.videoFileInstead}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="video/*"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onVideoFile(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default SourcePicker;
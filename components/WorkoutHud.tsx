@@ -0,0 +1,70 @@
+import React from 'react';
+import { EXERCISES, ScheduledWorkout, WorkoutProgress } from '../services/fitness';
+import { useI18n } from '../i18n';
+
+interface WorkoutHudProps {
+  workout: ScheduledWorkout;
+  progress: WorkoutProgress;
+  // performance.now() as of the last workout tick, for the rest countdown.
+  now: number;
+  onSkip: () => void;
+}
+
+const WorkoutHud: React.FC<WorkoutHudProps> = ({ workout, progress, now, onSkip }) => {
+  const { t } = useI18n();
+  const resting = progress.phase === 'rest';
+  // During a rest the HUD already shows the set that comes next
+  const setIndex = resting ? progress.setIndex + 1 : progress.setIndex;
+  const set = workout.sets[setIndex];
+  if (!set) return null;
+
+  const exercise = EXERCISES[set.exercise];
+  const text = t.exercises[set.exercise];
+  const restLeftMs = resting ? Math.max(0, workout.sets[progress.setIndex].restMs - (now - progress.phaseStartedAt)) : 0;
+  const done = set.kind === 'reps' ? progress.reps : progress.holdMs;
+  const fraction = resting ? 0 : Math.min(1, done / set.target);
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none z-30">
+      <div className="text-[10px] uppercase tracking-[0.4em] text-slate-400 font-black mb-4">
+        {workout.name} · {t.workout.set(setIndex + 1, workout.sets.length)}
+      </div>
+      <div
+        className={`flex flex-col items-center justify-center border-[12px] rounded-[60px] backdrop-blur-[1px] px-16 py-10 transition-colors duration-300 ${
+          resting ? 'bg-cyan-400/5 border-cyan-400/40' : 'bg-yellow-400/5 border-yellow-400/60'
+        }`}
+      >
+        {resting && <div className="text-cyan-400 text-xs font-black tracking-[0.4em] mb-2">{t.workout.rest} · {t.workout.upNext}</div>}
+        <div className="text-[100px] mb-4 drop-shadow-[0_0_30px_rgba(250,204,21,1)]">{exercise.icon}</div>
+        <div className="text-4xl font-black uppercase text-white drop-shadow-2xl text-center tracking-tighter">{text.name}</div>
+        <div className="mt-2 max-w-md text-center text-sm text-slate-300">{text.hint}</div>
+        <div className={`mt-6 px-8 py-3 bg-black/60 rounded-full text-3xl font-black tabular-nums ${resting ? 'text-cyan-400' : 'text-yellow-400'}`}>
+          {resting
+            ? t.seconds(Math.ceil(restLeftMs / 1000))
+            : set.kind === 'reps'
+              ? t.workout.reps(progress.reps, set.target)
+              : t.workout.held((progress.holdMs / 1000).toFixed(1), (set.target / 1000).toFixed(0))}
+        </div>
+        {!resting && (
+          <div className="mt-2 text-[10px] uppercase tracking-widest text-slate-400 font-black">
+            {set.kind === 'reps' ? t.workout.repHint : t.workout.holdHint}
+          </div>
+        )}
+        <div className="mt-4 w-64 h-2 bg-slate-800/50 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full ${resting ? 'bg-cyan-500' : 'bg-yellow-400'}`}
+            style={{ width: `${(resting ? 1 - restLeftMs / Math.max(1, workout.sets[progress.setIndex].restMs) : fraction) * 100}%` }}
+          ></div>
+        </div>
+      </div>
+      <button
+        onClick={onSkip}
+        className="mt-6 pointer-events-auto px-6 py-2 bg-slate-900/60 hover:bg-slate-800 rounded-2xl border border-white/10 text-[10px] uppercase tracking-widest text-slate-400 hover:text-white font-black"
+      >
+        {t.workout.skip}
+      </button>
+    </div>
+  );
+};
+
+export default WorkoutHud;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { EXERCISES, ScheduledWorkout, SetResult, workoutTotals } from '../services/fitness';
+import { useI18n } from '../i18n';
+
+interface WorkoutSummaryProps {
+  workout: ScheduledWorkout;
+  results: SetResult[];
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({ workout, results, onRetry, onClose }) => {
+  const { t } = useI18n();
+  const totals = workoutTotals(workout, results);
+  const minutes = Math.floor(totals.activeMs / 60000);
+  const seconds = Math.floor((totals.activeMs % 60000) / 1000).toString().padStart(2, '0');
+
+  return (
+    <div className="absolute inset-0 bg-slate-950/95 backdrop-blur-2xl flex items-start justify-center z-[100] overflow-y-auto p-8">
+      <div className="w-full max-w-2xl flex flex-col items-center gap-6 text-center">
+        <div className="text-cyan-400 font-mono text-sm">{t.workout.complete}</div>
+        <h2 className="text-6xl font-black tracking-tighter">{workout.name}</h2>
+        <div className="grid grid-cols-2 gap-3 w-full">
+          {[
+            { label: t.workout.sets, value: `${totals.setsCompleted}/${totals.setsTotal}` },
+            { label: t.workout.activeTime, value: `${minutes}:${seconds}` }
+          ].map(({ label, value }) => (
+            <div key={label} className="bg-white/5 rounded-2xl p-4">
+              <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">{label}</div>
+              <div className="text-2xl font-black">{value}</div>
+            </div>
+          ))}
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] uppercase text-slate-500">
+              <th className="text-left font-bold pb-2">{t.workout.exercise}</th>
+              <th className="text-right font-bold pb-2">{t.workout.sets}</th>
+              <th className="text-right font-bold pb-2">{t.workout.total}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {totals.exercises.map(entry => (
+              <tr key={entry.exercise} className="border-t border-white/5">
+                <td className="text-left py-2">{EXERCISES[entry.exercise].icon} {t.exercises[entry.exercise].name}</td>
+                <td className="text-right py-2">{entry.sets}</td>
+                <td className="text-right py-2 font-black">
+                  {entry.kind === 'reps' ? t.workout.repsUnit(entry.reps) : t.workout.secondsUnit((entry.holdMs / 1000).toFixed(0))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex gap-3">
+          <button onClick={onRetry} className="px-10 py-4 bg-cyan-500 hover:bg-cyan-400 text-white font-black rounded-2xl text-lg">
+            {t.workout.again}
+          </button>
+          <button onClick={onClose} className="px-10 py-4 bg-white/5 hover:bg-white/10 rounded-2xl border border-white/10 font-black text-lg text-slate-300">
+            {t.workout.menu}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkoutSummary;
@@ -6,68 +6,324 @@ export const POSES: Pose[] = [
     id: 't-pose',
     name: 'Т-Поза',
     description: 'Стоя прямо, вытяните обе руки горизонтально в стороны.',
-    icon: '👐'
+    icon: '👐',
+    tier: 1,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: 0, tolerance: 20 },
+        { limb: 'leftForearm', angle: 0, tolerance: 20 },
+        { limb: 'rightUpperArm', angle: 0, tolerance: 20 },
+        { limb: 'rightForearm', angle: 0, tolerance: 20 }
+      ]
+    },
+    feedback: { match: 'Perfect T-Shape!', miss: 'Extend your arms fully to the sides.' }
   },
   {
     id: 'victory-v',
     name: 'Победа',
     description: 'Поднимите обе руки высоко вверх, образуя букву V.',
-    icon: '✌️'
+    icon: '✌️',
+    tier: 1,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: 60, tolerance: 25 },
+        { limb: 'leftForearm', angle: 60, tolerance: 25 },
+        { limb: 'rightUpperArm', angle: 60, tolerance: 25 },
+        { limb: 'rightForearm', angle: 60, tolerance: 25 }
+      ],
+      relations: [
+        { landmark: 'leftWrist', relativeTo: 'leftShoulder', axis: 'y', min: 0.5 },
+        { landmark: 'rightWrist', relativeTo: 'rightShoulder', axis: 'y', min: 0.5 }
+      ]
+    },
+    feedback: { match: 'Victory attained!', miss: 'Raise your hands high in a V!' }
   },
   {
     id: 'hands-on-hips',
     name: 'Герой',
     description: 'Положите обе руки твёрдо на бёдра, локти в стороны.',
-    icon: '🦸'
+    icon: '🦸',
+    tier: 1,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: -50, tolerance: 30 },
+        { limb: 'leftForearm', angle: -135, tolerance: 35 },
+        { limb: 'rightUpperArm', angle: -50, tolerance: 30 },
+        { limb: 'rightForearm', angle: -135, tolerance: 35 }
+      ],
+      relations: [
+        { landmark: 'leftWrist', relativeTo: 'leftHip', axis: 'distance', max: 0.5, weight: 2 },
+        { landmark: 'rightWrist', relativeTo: 'rightHip', axis: 'distance', max: 0.5, weight: 2 }
+      ]
+    },
+    feedback: { match: 'Looking heroic!', miss: 'Put your hands on your hips.' }
   },
   {
     id: 'hands-on-head',
     name: 'Шок',
     description: 'Положите обе руки на верхнюю часть головы.',
-    icon: '🤯'
+    icon: '🤯',
+    tier: 2,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: 45, tolerance: 30 },
+        { limb: 'leftForearm', angle: 155, tolerance: 35 },
+        { limb: 'rightUpperArm', angle: 45, tolerance: 30 },
+        { limb: 'rightForearm', angle: 155, tolerance: 35 }
+      ],
+      relations: [
+        { landmark: 'leftWrist', relativeTo: 'nose', axis: 'distance', max: 0.8, weight: 2 },
+        { landmark: 'rightWrist', relativeTo: 'nose', axis: 'distance', max: 0.8, weight: 2 },
+        { landmark: 'leftWrist', relativeTo: 'leftShoulder', axis: 'y', min: 0.2 },
+        { landmark: 'rightWrist', relativeTo: 'rightShoulder', axis: 'y', min: 0.2 }
+      ]
+    },
+    feedback: { match: 'Mind status: Blown!', miss: 'Hands on your head!' }
   },
   {
     id: 'right-arm-up',
     name: 'Правая вверх',
     description: 'Поднимите только правую руку прямо вверх.',
-    icon: '🙋‍♂️'
+    icon: '🙋‍♂️',
+    tier: 1,
+    definition: {
+      limbs: [
+        { limb: 'rightUpperArm', angle: 90, tolerance: 25 },
+        { limb: 'rightForearm', angle: 90, tolerance: 25 },
+        { limb: 'leftUpperArm', angle: -90, tolerance: 30 },
+        { limb: 'leftForearm', angle: -90, tolerance: 35 }
+      ],
+      relations: [
+        { landmark: 'rightWrist', relativeTo: 'rightShoulder', axis: 'y', min: 0.8, weight: 2 },
+        { landmark: 'leftWrist', relativeTo: 'leftShoulder', axis: 'y', max: 0, weight: 2 }
+      ]
+    },
+    feedback: { match: 'Reaching the stars!', miss: 'Raise only your right hand.' }
   },
   {
     id: 'arms-crossed',
     name: 'Сила',
     description: 'Скрестите руки на груди.',
-    icon: '🙅'
+    icon: '🙅',
+    tier: 2,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: -75, tolerance: 30 },
+        { limb: 'leftForearm', angle: 170, tolerance: 35 },
+        { limb: 'rightUpperArm', angle: -75, tolerance: 30 },
+        { limb: 'rightForearm', angle: 170, tolerance: 35 }
+      ],
+      relations: [
+        // Crossed: the left wrist ends up on the player's right of the right wrist.
+        { landmark: 'leftWrist', relativeTo: 'rightWrist', axis: 'x', max: 0, weight: 2 },
+        { landmark: 'leftWrist', relativeTo: 'leftShoulder', axis: 'y', min: -0.8, max: 0.1 },
+        { landmark: 'rightWrist', relativeTo: 'rightShoulder', axis: 'y', min: -0.8, max: 0.1 }
+      ]
+    },
+    feedback: { match: 'Power pose active!', miss: 'Cross your arms over your chest.' }
   },
   {
     id: 'left-arm-up',
     name: 'Левая вверх',
     description: 'Поднимите только левую руку прямо вверх.',
-    icon: '🙋‍♀️'
+    icon: '🙋‍♀️',
+    tier: 1,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: 90, tolerance: 25 },
+        { limb: 'leftForearm', angle: 90, tolerance: 25 },
+        { limb: 'rightUpperArm', angle: -90, tolerance: 30 },
+        { limb: 'rightForearm', angle: -90, tolerance: 35 }
+      ],
+      relations: [
+        { landmark: 'leftWrist', relativeTo: 'leftShoulder', axis: 'y', min: 0.8, weight: 2 },
+        { landmark: 'rightWrist', relativeTo: 'rightShoulder', axis: 'y', max: 0, weight: 2 }
+      ]
+    },
+    feedback: { match: 'Reaching the stars!', miss: 'Raise only your left hand.' }
   },
   {
     id: 'hands-up-knees',
     name: 'Тачдаун',
     description: 'Слегка согните колени и поднимите обе руки прямо вверх.',
-    icon: '🙌'
+    icon: '🙌',
+    tier: 3,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: 90, tolerance: 25 },
+        { limb: 'leftForearm', angle: 90, tolerance: 25 },
+        { limb: 'rightUpperArm', angle: 90, tolerance: 25 },
+        { limb: 'rightForearm', angle: 90, tolerance: 25 },
+        // Bent knees splay the thighs outwards and bring the shins back in.
+        { limb: 'leftThigh', angle: -75, tolerance: 12, weight: 0.5 },
+        { limb: 'leftShin', angle: -105, tolerance: 12, weight: 0.5 },
+        { limb: 'rightThigh', angle: -75, tolerance: 12, weight: 0.5 },
+        { limb: 'rightShin', angle: -105, tolerance: 12, weight: 0.5 }
+      ],
+      joints: [
+        { joint: 'leftKnee', angle: 150, tolerance: 20, weight: 0.5 },
+        { joint: 'rightKnee', angle: 150, tolerance: 20, weight: 0.5 }
+      ]
+    },
+    feedback: { match: 'Touchdown!', miss: 'Bend your knees and throw both arms straight up.' }
   },
   {
     id: 'arms-wide',
     name: 'Полёт',
     description: 'Стойте ногами на ширине плеч, руки раскинуты широко как крылья.',
-    icon: '🦅'
+    icon: '🦅',
+    tier: 2,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: 15, tolerance: 25 },
+        { limb: 'leftForearm', angle: 25, tolerance: 25 },
+        { limb: 'rightUpperArm', angle: 15, tolerance: 25 },
+        { limb: 'rightForearm', angle: 25, tolerance: 25 }
+      ],
+      relations: [
+        { landmark: 'leftAnkle', relativeTo: 'rightAnkle', axis: 'x', min: 0.55 }
+      ]
+    },
+    feedback: { match: 'Cleared for take-off!', miss: 'Feet apart, spread your arms wide like wings.' }
   },
   {
     id: 'one-hand-waist',
     name: 'Мыслитель',
     description: 'Положите одну руку на подбородок, как будто задумались.',
-    icon: '🤔'
+    icon: '🤔',
+    tier: 2,
+    definition: {
+      limbs: [
+        { limb: 'rightUpperArm', angle: -80, tolerance: 30 },
+        { limb: 'rightForearm', angle: 110, tolerance: 35 },
+        { limb: 'leftUpperArm', angle: -90, tolerance: 40, weight: 0.5 }
+      ],
+      relations: [
+        { landmark: 'rightWrist', relativeTo: 'nose', axis: 'distance', max: 0.45, weight: 2 }
+      ],
+      eitherSide: true
+    },
+    feedback: { match: 'Deep thoughts detected.', miss: 'Rest one hand on your chin.' }
   },
   {
     id: 'squat-arms',
     name: 'Сумоист',
     description: 'Сделайте неглубокое приседание с руками вместе перед грудью.',
-    icon: '🏋️'
+    icon: '🏋️',
+    tier: 3,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: -70, tolerance: 30, weight: 0.5 },
+        { limb: 'leftForearm', angle: 165, tolerance: 35, weight: 0.5 },
+        { limb: 'rightUpperArm', angle: -70, tolerance: 30, weight: 0.5 },
+        { limb: 'rightForearm', angle: 165, tolerance: 35, weight: 0.5 },
+        { limb: 'leftThigh', angle: -60, tolerance: 20, weight: 2 },
+        { limb: 'rightThigh', angle: -60, tolerance: 20, weight: 2 }
+      ],
+      relations: [
+        { landmark: 'leftWrist', relativeTo: 'rightWrist', axis: 'distance', max: 0.35, weight: 2 },
+        { landmark: 'leftWrist', relativeTo: 'leftShoulder', axis: 'y', min: -0.8, max: 0.1 },
+        { landmark: 'rightWrist', relativeTo: 'rightShoulder', axis: 'y', min: -0.8, max: 0.1 },
+        { landmark: 'leftKnee', relativeTo: 'rightKnee', axis: 'x', min: 0.7 }
+      ],
+      joints: [
+        { joint: 'leftKnee', angle: 145, tolerance: 25 },
+        { joint: 'rightKnee', angle: 145, tolerance: 25 }
+      ]
+    },
+    feedback: { match: 'Sumo strength!', miss: 'Sink into a wide squat, hands together at your chest.' }
+  },
+  {
+    id: 'flamingo',
+    name: 'Фламинго',
+    description: 'Стойте на одной ноге, другую согните и поднимите колено, руки в стороны.',
+    icon: '🦩',
+    tier: 3,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: 0, tolerance: 35, weight: 0.5 },
+        { limb: 'rightUpperArm', angle: 0, tolerance: 35, weight: 0.5 },
+        // Seen from the front the raised thigh points at the camera, so its direction is only a hint.
+        { limb: 'leftThigh', angle: -40, tolerance: 40, weight: 0.3 },
+        { limb: 'leftShin', angle: -95, tolerance: 30, weight: 0.3 },
+        { limb: 'rightThigh', angle: -90, tolerance: 15 },
+        { limb: 'rightShin', angle: -90, tolerance: 15 }
+      ],
+      relations: [
+        { landmark: 'leftKnee', relativeTo: 'rightKnee', axis: 'y', min: 0.35, weight: 2 }
+      ],
+      joints: [
+        { joint: 'rightKnee', angle: 175, tolerance: 20 }
+      ],
+      standOn: 'right',
+      eitherSide: true
+    },
+    feedback: { match: 'Perfect balance!', miss: 'Stand on one leg and lift the other knee high.' }
+  },
+  {
+    id: 'lunge',
+    name: 'Выпад',
+    description: 'Сделайте широкий шаг вперёд и опуститесь, согнув оба колена, руки вверх.',
+    icon: '🤺',
+    tier: 3,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: 90, tolerance: 30, weight: 0.5 },
+        { limb: 'rightUpperArm', angle: 90, tolerance: 30, weight: 0.5 },
+        { limb: 'leftThigh', angle: -50, tolerance: 30, weight: 0.5 },
+        { limb: 'leftShin', angle: -110, tolerance: 30, weight: 0.5 },
+        { limb: 'rightThigh', angle: -95, tolerance: 30, weight: 0.3 },
+        { limb: 'rightShin', angle: -150, tolerance: 40, weight: 0.3 }
+      ],
+      relations: [
+        // The back knee sinks towards the floor, below the front one.
+        { landmark: 'rightKnee', relativeTo: 'leftKnee', axis: 'y', max: -0.15, weight: 2 }
+      ],
+      joints: [
+        // Foreshortening makes a right-angled front knee look wider from the camera.
+        { joint: 'leftKnee', angle: 115, tolerance: 30, weight: 2 },
+        { joint: 'rightKnee', angle: 125, tolerance: 35 }
+      ],
+      eitherSide: true
+    },
+    feedback: { match: 'Strong lunge!', miss: 'Step forward and sink until both knees bend.' }
+  },
+  {
+    id: 'star-jump',
+    name: 'Звезда',
+    description: 'Прыжком расставьте прямые ноги широко и поднимите руки по диагонали вверх — звезда.',
+    icon: '⭐',
+    tier: 2,
+    definition: {
+      limbs: [
+        { limb: 'leftUpperArm', angle: 45, tolerance: 25 },
+        { limb: 'leftForearm', angle: 45, tolerance: 25 },
+        { limb: 'rightUpperArm', angle: 45, tolerance: 25 },
+        { limb: 'rightForearm', angle: 45, tolerance: 25 },
+        { limb: 'leftThigh', angle: -60, tolerance: 15 },
+        { limb: 'leftShin', angle: -60, tolerance: 15 },
+        { limb: 'rightThigh', angle: -60, tolerance: 15 },
+        { limb: 'rightShin', angle: -60, tolerance: 15 }
+      ],
+      relations: [
+        { landmark: 'leftAnkle', relativeTo: 'rightAnkle', axis: 'x', min: 1.1, weight: 2 }
+      ],
+      joints: [
+        { joint: 'leftKnee', angle: 175, tolerance: 20, weight: 0.5 },
+        { joint: 'rightKnee', angle: 175, tolerance: 20, weight: 0.5 },
+        { joint: 'leftHip', angle: 150, tolerance: 20, weight: 0.5 },
+        { joint: 'rightHip', angle: 150, tolerance: 20, weight: 0.5 }
+      ]
+    },
+    feedback: { match: 'Shining star!', miss: 'Spread your straight legs wide and your arms up in an X.' }
   }
 ];
 
 export const GAME_DURATION = 6000; // 6 seconds for a balanced challenge
+
+// Minimum similarity score (0-100) for a wall to count as passed.
+export const MATCH_THRESHOLD = 60;
+
+// Walls are judged over the frames leading up to the deadline, not a single snapshot.
+export const JUDGE_WINDOW_MS = 700;
+export const MIN_HOLD_MS = 400;
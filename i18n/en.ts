@@ -0,0 +1,406 @@
+import { Messages } from './ru';
+
+export const en: Messages = {
+  language: 'Language',
+  start: {
+    tagline: 'System initialized. Match the poses with high precision. Now with 100% offline neural processing.',
+    highlightsOn: '🎬 Highlights ON',
+    highlightsOff: '🎞 Highlights OFF',
+    mirror: '🪞 Mirror and sides',
+    sidesAnatomical: 'My left/right',
+    sidesScreen: 'As on screen',
+    mirroredTwins: 'Mirrored twins for one-sided poses',
+    difficulty: '📈 Difficulty',
+    judge: '⚖️ Judge',
+    judgeNoKey: 'no API key — offline fallback',
+    music: '🎵 Music',
+    analyzingTrack: 'Analyzing rhythm...',
+    loadTrack: 'Load track',
+    sound: '🔊 Sound',
+    soundOff: '🔇 Sound off',
+    announcePoses: 'Announce poses aloud',
+    beatHint: (bonus: number) => `Walls arrive on the beat. A pose caught on the beat scores +${bonus}%.`,
+    studio: '🎨 Pose studio',
+    replay: '▶ Replay session',
+    routine: '💃 Choreography',
+    workout: '🏋️ Workout',
+    calibrate: '📏 Calibrate',
+    recalibrate: '📏 Recalibrate',
+    activate: 'ACTIVATE SYSTEM',
+    connecting: 'ESTABLISHING LINK...'
+  },
+  judgeModes: {
+    offline: 'Offline',
+    hybrid: 'Hybrid',
+    gemini: 'Gemini'
+  },
+  difficulties: {
+    easy: 'Easy',
+    normal: 'Normal',
+    hard: 'Hardcore'
+  },
+  seconds: (value: number | string) => `${value}s`,
+  camera: {
+    failed: 'CAMERA FAILURE',
+    retry: 'RETRY',
+    trackerFailed: 'POSE MODEL FAILED TO LOAD',
+    trackerHint: 'The pose recognition model did not start. Reload the page; details are in the browser console.',
+    lost: 'CAMERA DISCONNECTED',
+    lostHint: 'Plug the camera back in — the game will pick it up by itself.',
+    source: '🎥 Video source',
+    backToCamera: '← Back to camera',
+    defaultCamera: 'Default camera',
+    numbered: (n: number) => `Camera ${n}`,
+    otherVideoFile: 'Another video file',
+    videoFileInstead: 'Video file instead of camera',
+    resolutions: {
+      low: 'Low',
+      standard: 'Standard',
+      hd: 'HD'
+    }
+  },
+  hud: {
+    wallArrival: 'Wall arrival',
+    replay: 'Replay',
+    stop: 'Stop',
+    score: 'Score',
+    level: (level: number) => `Lv. ${level}`,
+    combo: (multiplier: string) => `Combo ×${multiplier}`,
+    sidesScreen: 'sides as on screen',
+    sidesAnatomical: 'your own left and right',
+    fitSilhouette: 'FIT THE SILHOUETTE'
+  },
+  judging: 'ANALYZING POSE...',
+  result: {
+    match: 'MATCH',
+    miss: 'DESYNC',
+    accuracy: 'Accuracy',
+    hold: 'Hold',
+    stability: 'Stability',
+    balance: 'Balance',
+    gained: 'Gained',
+    combo: (multiplier: string) => `Combo ×${multiplier}`,
+    onBeat: (bonus: number) => `🎵 On beat! +${bonus}%`,
+    bonusLife: '+1 life for the streak!',
+    recorded: (matched: boolean, score: number) => `Recorded: ${matched ? 'match' : 'desync'}, ${score}%`,
+    continue: 'CONTINUE'
+  },
+  gameOver: {
+    error: 'ERROR: STRUCTURAL FAILURE',
+    title: 'DESYNC',
+    complete: 'SESSION COMPLETE',
+    completeTitle: 'FINISH',
+    performance: 'Performance index',
+    newBest: '🏆 New personal best!',
+    weakPoses: (player: string) => `${player} · weakest poses`,
+    daily: (key: string) => `Daily challenge ${key}`,
+    runCode: 'Run code',
+    copy: 'Copy',
+    repeat: 'Replay',
+    restart: 'REBOOT',
+    saveRecording: '💾 Save session recording'
+  },
+  gallery: {
+    title: 'Session gallery',
+    downloadSheet: '🖼 Contact sheet',
+    downloadReel: '🎬 Download reel',
+    assemblingReel: 'Assembling reel...',
+    sheetTitle: (date: string) => `NEURAL PULSE · ${date}`
+  },
+  footer: {
+    neuralLink: 'Neural link',
+    offline: 'OFFLINE MODE',
+    cloud: 'CLOUD JUDGE',
+    status: 'STATUS: SECURE'
+  },
+  errors: {
+    trackUnreadable: 'Could not read the audio file.',
+    unexpected: 'Something went wrong. Please try again.',
+    files: {
+      'recording': 'session recording',
+      'pose-pack': 'pose pack',
+      'routine': 'routine',
+      'workout': 'workout',
+      'config': 'game config'
+    },
+    notJson: (file: string) => `This ${file} is not valid JSON.`,
+    wrongFormat: (file: string) => `File is not a Neural Pulse ${file}.`,
+    unsupportedVersion: (file: string, version: string) => `Unsupported ${file} version: ${version}.`,
+    emptyFile: (file: string) => `This ${file} is empty.`,
+    invalidFrame: (item: number) => `Recording frame ${item} is malformed.`,
+    invalidEvent: (item: number) => `Recording event ${item} is malformed.`,
+    invalidPose: (item: number) => `Pose #${item} is malformed.`,
+    missingLimbs: (pose: string) => `Pose "${pose}": limb rules are missing.`,
+    unknownLimb: (pose: string, limb: string) => `Pose "${pose}": unknown limb "${limb}".`,
+    invalidLimbRule: (pose: string, limb: string) => `Pose "${pose}": ${limb} needs a numeric angle, a positive tolerance and a non-negative weight.`,
+    unknownJoint: (pose: string, joint: string) => `Pose "${pose}": unknown joint "${joint}".`,
+    invalidJointRule: (pose: string, joint: string) => `Pose "${pose}": ${joint} needs a numeric angle, a positive tolerance and a non-negative weight.`,
+    invalidJoints: (pose: string) => `Pose "${pose}": joints must be a list of joint rules.`,
+    invalidStandOn: (pose: string) => `Pose "${pose}": standOn must be "left" or "right".`,
+    invalidRelation: (pose: string) => `Pose "${pose}": a position rule is invalid.`,
+    unknownLandmark: (pose: string, landmark: string) => `Pose "${pose}": unknown landmark "${landmark}".`,
+    incompleteReference: (pose: string, landmark: string) => `Pose "${pose}": reference skeleton is missing ${landmark}.`,
+    unknownPose: (item: number, pose: string) => `Entry ${item}: unknown pose "${pose}".`,
+    invalidStepTiming: (item: number) => `Step ${item}: transitionMs and holdMs must be positive durations.`,
+    unknownExercise: (item: number, exercise: string) => `Block ${item}: unknown exercise "${exercise}".`,
+    invalidSets: (item: number) => `Block ${item}: sets must be a positive whole number.`,
+    missingTarget: (item: number, exercise: string, target: string) => `Block ${item}: ${exercise} needs ${target}.`,
+    invalidRest: (item?: number) => `${item ? `Block ${item}: ` : ''}restMs must be a duration.`,
+    unknownDifficulty: (value: string) => `Unknown difficulty "${value}".`,
+    unknownJudge: (value: string) => `Unknown judge "${value}".`,
+    emptyPlaylist: 'poses must be a non-empty list.',
+    invalidOrder: 'order must be "sequence" or "shuffle".',
+    invalidWallTime: (min: number, item?: number) => `${item ? `Entry ${item}: ` : ''}wallMs must be at least ${min}.`,
+    invalidThreshold: (item?: number) => `${item ? `Entry ${item}: ` : ''}threshold must be between 1 and 100.`,
+    invalidLives: (max: number) => `lives must be a whole number from 1 to ${max}.`,
+    invalidMaxLives: 'maxLives must be a whole number no lower than lives.',
+    invalidWalls: 'walls must be a positive whole number.',
+    invalidSeed: 'seed must be a whole number from 0 to 4294967295.',
+    damagedLink: 'The game config in this link is damaged.',
+    invalidSeedCode: 'Seed code should look like N-1Z141Z3.',
+    seedCodeRange: 'Seed code is out of range.',
+    cameraDenied: 'Camera access was denied. Allow it in the browser settings.',
+    cameraNotFound: 'No camera was found.',
+    cameraBusy: 'The camera is in use by another app.',
+    cameraUnavailable: 'Could not access camera.',
+    videoUnloadable: 'Video could not be loaded.',
+    unplayableVideo: (name: string) => `"${name}" is not a playable video.`,
+    trackTooShort: 'Track is too short to find a beat.',
+    noPhotos: 'No photos to put on a contact sheet.',
+    noCanvas: 'Canvas 2D is not available.',
+    imageEncoding: 'Could not encode the image.'
+  },
+  profiles: {
+    player: '👤 Player',
+    defaultName: 'Player 1',
+    newPlayer: 'New player',
+    add: 'Add',
+    highScores: '🏆 High scores'
+  },
+  stats: {
+    empty: 'Play your first session to see statistics.',
+    sessions: 'Sessions',
+    best: 'Best',
+    walls: 'Walls',
+    pose: 'Pose',
+    success: 'Success',
+    average: 'Avg.',
+    progress: 'Progress'
+  },
+  calibration: {
+    title: 'CALIBRATION',
+    ready: 'Great, hold still',
+    issues: {
+      'no-body': 'Stand in front of the camera',
+      'too-close': 'Step back',
+      'too-far': 'Come closer',
+      'step-left': 'Step to the left',
+      'step-right': 'Step to the right',
+      'joints-hidden': 'The camera can\'t see all of you'
+    },
+    bodyParts: {
+      head: 'head',
+      leftArm: 'left arm',
+      rightArm: 'right arm',
+      leftLeg: 'left leg',
+      rightLeg: 'right leg'
+    },
+    hidden: (parts: string) => `Not visible: ${parts}`,
+    hint: 'Stand so your head and feet are in the frame, arms down by your sides.',
+    cancel: 'Cancel'
+  },
+  correction: {
+    joints: {
+      leftElbow: 'Left elbow',
+      rightElbow: 'Right elbow',
+      leftWrist: 'Left wrist',
+      rightWrist: 'Right wrist',
+      leftKnee: 'Left knee',
+      rightKnee: 'Right knee',
+      leftAnkle: 'Left ankle',
+      rightAnkle: 'Right ankle'
+    },
+    directions: {
+      high: 'too high',
+      low: 'too low',
+      out: 'too far from the body',
+      in: 'too close to the body'
+    },
+    deviation: (joint: string, degrees: number, direction: string) => `${joint} ${degrees}° ${direction}`,
+    allGood: 'Every joint in place'
+  },
+  studio: {
+    title: 'POSE',
+    titleAccent: 'STUDIO',
+    back: 'BACK',
+    name: 'Pose name',
+    description: 'Description for the player',
+    tolerance: 'Tolerance',
+    capture: 'CAPTURE',
+    holdStill: (seconds: number) => `HOLD STILL: ${seconds}`,
+    recording: 'RECORDING...',
+    save: 'SAVE',
+    noReference: 'no reference',
+    bodyNotFound: 'Full body not found. Step back and try again.',
+    myPoses: (count: number) => `My poses: ${count}`,
+    import: 'Import',
+    export: 'Export',
+    remove: 'DELETE'
+  },
+  routine: {
+    step: (index: number, total: number) => `step ${index}/${total}`,
+    transition: 'TRANSITION',
+    hold: 'HOLD!',
+    next: 'Next:',
+    notCaught: 'not caught',
+    onBeat: 'right on the beat',
+    offset: (early: boolean, seconds: string) => `${seconds}s ${early ? 'early' : 'late'}`,
+    complete: 'CHOREOGRAPHY COMPLETE',
+    total: 'Total',
+    average: 'Average',
+    poses: 'Poses',
+    stepColumn: 'Step',
+    form: 'Form',
+    timing: 'Timing',
+    points: 'Points',
+    missed: 'missed',
+    again: 'AGAIN',
+    menu: 'MENU'
+  },
+  workout: {
+    set: (index: number, total: number) => `set ${index}/${total}`,
+    reps: (done: number, target: number) => `${done} / ${target}`,
+    held: (seconds: string, target: string) => `${seconds} / ${target}s`,
+    holdHint: 'Hold the position',
+    repHint: 'Keep the reps going',
+    rest: 'REST',
+    upNext: 'Up next:',
+    skip: 'Skip',
+    complete: 'WORKOUT COMPLETE',
+    sets: 'Sets',
+    activeTime: 'Time under load',
+    exercise: 'Exercise',
+    total: 'Total',
+    repsUnit: (count: number) => `${count} reps`,
+    secondsUnit: (seconds: string) => `${seconds}s`,
+    again: 'AGAIN',
+    menu: 'MENU'
+  },
+  exercises: {
+    'squat': { name: 'Squats', hint: 'Sink until your knees bend past 110° and stand back up straight.' },
+    'lunge': { name: 'Lunges', hint: 'Step forward and lower until your front knee is close to a right angle.' },
+    'jumping-jack': { name: 'Jumping jacks', hint: 'Jump your feet apart and your arms overhead, then back together.' },
+    'arm-raise': { name: 'Arm raises', hint: 'Raise straight arms out to the sides and overhead, then lower them.' },
+    'wall-sit': { name: 'Wall sit', hint: 'Sit on an invisible chair and keep your knees bent.' },
+    't-hold': { name: 'T hold', hint: 'Hold your straight arms out level to the sides.' }
+  },
+  config: {
+    title: '📋 Session setup',
+    load: '📋 Load game config',
+    untitled: 'Custom session',
+    poses: (count: number) => `${count} poses`,
+    inOrder: 'in order',
+    shuffled: 'shuffled',
+    walls: (count: number) => `${count} walls`,
+    copyLink: '🔗 Link',
+    copied: 'Copied',
+    remove: 'Remove'
+  },
+  seed: {
+    daily: '📅 Daily challenge',
+    placeholder: 'Run code, e.g. N-1Z141Z3'
+  },
+  feedback: {
+    noBody: 'No body detected. Stand back!',
+    unsteady: 'Almost! Hold the pose steady until the wall arrives.',
+    offBalance: 'Almost! Keep your balance on the standing leg.',
+    customMatch: 'Spot on!',
+    customMiss: (name: string) => `Match the "${name}" shape.`
+  },
+  poses: {
+    't-pose': {
+      name: 'T-Pose',
+      description: 'Stand straight and stretch both arms out horizontally to the sides.',
+      match: 'Perfect T-Shape!',
+      miss: 'Extend your arms fully to the sides.'
+    },
+    'victory-v': {
+      name: 'Victory',
+      description: 'Raise both arms high above your head in a V.',
+      match: 'Victory attained!',
+      miss: 'Raise your hands high in a V!'
+    },
+    'hands-on-hips': {
+      name: 'Hero',
+      description: 'Put both hands firmly on your hips, elbows out.',
+      match: 'Looking heroic!',
+      miss: 'Put your hands on your hips.'
+    },
+    'hands-on-head': {
+      name: 'Shock',
+      description: 'Put both hands on top of your head.',
+      match: 'Mind status: Blown!',
+      miss: 'Hands on your head!'
+    },
+    'right-arm-up': {
+      name: 'Right Up',
+      description: 'Raise only your right arm straight up.',
+      match: 'Reaching the stars!',
+      miss: 'Raise only your right hand.'
+    },
+    'arms-crossed': {
+      name: 'Power',
+      description: 'Cross your arms over your chest.',
+      match: 'Power pose active!',
+      miss: 'Cross your arms over your chest.'
+    },
+    'left-arm-up': {
+      name: 'Left Up',
+      description: 'Raise only your left arm straight up.',
+      match: 'Reaching the stars!',
+      miss: 'Raise only your left hand.'
+    },
+    'hands-up-knees': {
+      name: 'Touchdown',
+      description: 'Bend your knees slightly and throw both arms straight up.',
+      match: 'Touchdown!',
+      miss: 'Bend your knees and throw both arms straight up.'
+    },
+    'arms-wide': {
+      name: 'Flight',
+      description: 'Feet shoulder-width apart, arms spread wide like wings.',
+      match: 'Cleared for take-off!',
+      miss: 'Feet apart, spread your arms wide like wings.'
+    },
+    'one-hand-waist': {
+      name: 'Thinker',
+      description: 'Rest one hand on your chin as if lost in thought.',
+      match: 'Deep thoughts detected.',
+      miss: 'Rest one hand on your chin.'
+    },
+    'squat-arms': {
+      name: 'Sumo',
+      description: 'Sink into a shallow squat with your hands together in front of your chest.',
+      match: 'Sumo strength!',
+      miss: 'Sink into a wide squat, hands together at your chest.'
+    },
+    'flamingo': {
+      name: 'Flamingo',
+      description: 'Stand on one leg with the other knee bent and raised, arms out to the sides.',
+      match: 'Perfect balance!',
+      miss: 'Stand on one leg and lift the other knee high.'
+    },
+    'lunge': {
+      name: 'Lunge',
+      description: 'Take a long step forward and sink until both knees bend, arms up.',
+      match: 'Strong lunge!',
+      miss: 'Step forward and sink until both knees bend.'
+    },
+    'star-jump': {
+      name: 'Star',
+      description: 'Jump your straight legs wide apart and throw your arms up and out in a star.',
+      match: 'Shining star!',
+      miss: 'Spread your straight legs wide and your arms up in an X.'
+    }
+  }
+};
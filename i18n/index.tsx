@@ -0,0 +1,186 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Pose, MatchResult } from '../types';
+import { TWIN_SUFFIX, swapSideWords } from '../services/handedness';
+import { AppError } from '../services/errors';
+import { ru, Messages, PoseMessages } from './ru';
+import { en } from './en';
+
+/**
+ * Message catalogs and the player's language. Game logic keeps its own
+ * English strings; components look text up here when they render it.
+ */
+
+export type { Messages, PoseMessages };
+
+export type Language = 'ru' | 'en';
+
+const STORAGE_KEY = 'neural-pulse.language';
+
+export const LANGUAGES: { id: Language; label: string; englishName: string; speechLang: string }[] = [
+  { id: 'ru', label: 'Русский', englishName: 'Russian', speechLang: 'ru-RU' },
+  { id: 'en', label: 'English', englishName: 'English', speechLang: 'en-US' }
+];
+
+const CATALOGS: Record<Language, Messages> = { ru, en };
+
+export function messagesFor(language: Language): Messages {
+  return CATALOGS[language];
+}
+
+/**
+ * First supported language among the browser's preferred ones, matched on the
+ * primary subtag so "en-GB" picks English. Russian when nothing matches.
+ */
+export function detectLanguage(preferred: readonly string[] = navigator.languages ?? [navigator.language]): Language {
+  for (const tag of preferred) {
+    const primary = tag.toLowerCase().split('-')[0];
+    const match = LANGUAGES.find(language => language.id === primary);
+    if (match) return match.id;
+  }
+  return 'ru';
+}
+
+export function loadLanguage(): Language {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return LANGUAGES.some(language => language.id === stored) ? stored as Language : detectLanguage();
+}
+
+export function saveLanguage(language: Language): void {
+  localStorage.setItem(STORAGE_KEY, language);
+}
+
+interface I18nValue {
+  language: Language;
+  t: Messages;
+  setLanguage: (language: Language) => void;
+}
+
+const I18nContext = createContext<I18nValue>({ language: 'ru', t: ru, setLanguage: () => {} });
+
+/**
+ * Holds the player's language for the whole app and remembers their choice.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+
+  useEffect(() => {
+    saveLanguage(language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const value = useMemo(() => ({ language, t: messagesFor(language), setLanguage }), [language]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export function useI18n(): I18nValue {
+  return useContext(I18nContext);
+}
+
+// Catalog text for a built-in pose or a mirrored twin of one.
+function catalogPose(poseId: string, t: Messages): PoseMessages | null {
+  const entry = t.poses[poseId];
+  if (entry) return entry;
+  if (!poseId.endsWith(TWIN_SUFFIX)) return null;
+  const base = t.poses[poseId.slice(0, -TWIN_SUFFIX.length)];
+  if (!base) return null;
+  return {
+    name: swapSideWords(base.name),
+    description: swapSideWords(base.description),
+    match: swapSideWords(base.match),
+    miss: swapSideWords(base.miss)
+  };
+}
+
+/**
+ * A pose's text in the catalog's language. Mirrored twins are the base pose's
+ * text with the sides swapped; player-made poses have no entry and keep the
+ * name and description they were saved with.
+ */
+export function poseText(pose: Pose, t: Messages): PoseMessages {
+  return catalogPose(pose.id, t) ?? {
+    name: pose.name,
+    description: pose.description,
+    match: t.feedback.customMatch,
+    miss: t.feedback.customMiss(pose.name)
+  };
+}
+
+// For places that only kept the pose's id and the name it had then, like stats.
+export function poseName(poseId: string, savedName: string, t: Messages): string {
+  return catalogPose(poseId, t)?.name ?? savedName;
+}
+
+/**
+ * The verdict's feedback in the catalog's language. Free-text feedback, as
+ * Gemini writes it, is shown as is.
+ */
+export function feedbackText(result: MatchResult, pose: Pose | null, t: Messages): string {
+  switch (result.feedbackCode) {
+    case 'no-body': return t.feedback.noBody;
+    case 'unsteady': return t.feedback.unsteady;
+    case 'off-balance': return t.feedback.offBalance;
+    case 'match': return pose ? poseText(pose, t).match : result.feedback;
+    case 'miss': return pose ? poseText(pose, t).miss : result.feedback;
+    default: return result.feedback;
+  }
+}
+
+/**
+ * A thrown error as the player should read it. Errors from our services are
+ * looked up in the catalog; anything else (a browser or library failure)
+ * shows `fallback`, since its message is neither translated nor meant for
+ * players.
+ */
+export function errorText(err: unknown, t: Messages, fallback: string = t.errors.unexpected): string {
+  if (!(err instanceof AppError)) return fallback;
+  const e = t.errors;
+  const detail = err.detail;
+  switch (detail.code) {
+    case 'not-json': return e.notJson(e.files[detail.file]);
+    case 'wrong-format': return e.wrongFormat(e.files[detail.file]);
+    case 'unsupported-version': return e.unsupportedVersion(e.files[detail.file], detail.version);
+    case 'empty-file': return e.emptyFile(e.files[detail.file]);
+    case 'invalid-frame': return e.invalidFrame(detail.item);
+    case 'invalid-event': return e.invalidEvent(detail.item);
+    case 'invalid-pose': return e.invalidPose(detail.item);
+    case 'missing-limbs': return e.missingLimbs(detail.pose);
+    case 'unknown-limb': return e.unknownLimb(detail.pose, detail.limb);
+    case 'invalid-limb-rule': return e.invalidLimbRule(detail.pose, detail.limb);
+    case 'unknown-joint': return e.unknownJoint(detail.pose, detail.joint);
+    case 'invalid-joint-rule': return e.invalidJointRule(detail.pose, detail.joint);
+    case 'invalid-joints': return e.invalidJoints(detail.pose);
+    case 'invalid-stand-on': return e.invalidStandOn(detail.pose);
+    case 'invalid-relation': return e.invalidRelation(detail.pose);
+    case 'unknown-landmark': return e.unknownLandmark(detail.pose, detail.landmark);
+    case 'incomplete-reference': return e.incompleteReference(detail.pose, detail.landmark);
+    case 'unknown-pose': return e.unknownPose(detail.item, detail.pose);
+    case 'invalid-step-timing': return e.invalidStepTiming(detail.item);
+    case 'unknown-exercise': return e.unknownExercise(detail.item, detail.exercise);
+    case 'invalid-sets': return e.invalidSets(detail.item);
+    case 'missing-target': return e.missingTarget(detail.item, detail.exercise, detail.target);
+    case 'invalid-rest': return e.invalidRest(detail.item);
+    case 'unknown-difficulty': return e.unknownDifficulty(detail.value);
+    case 'unknown-judge': return e.unknownJudge(detail.value);
+    case 'empty-playlist': return e.emptyPlaylist;
+    case 'invalid-order': return e.invalidOrder;
+    case 'invalid-wall-time': return e.invalidWallTime(detail.min, detail.item);
+    case 'invalid-threshold': return e.invalidThreshold(detail.item);
+    case 'invalid-lives': return e.invalidLives(detail.max);
+    case 'invalid-max-lives': return e.invalidMaxLives;
+    case 'invalid-walls': return e.invalidWalls;
+    case 'invalid-seed': return e.invalidSeed;
+    case 'damaged-link': return e.damagedLink;
+    case 'invalid-seed-code': return e.invalidSeedCode;
+    case 'seed-code-range': return e.seedCodeRange;
+    case 'camera-denied': return e.cameraDenied;
+    case 'camera-not-found': return e.cameraNotFound;
+    case 'camera-busy': return e.cameraBusy;
+    case 'camera-unavailable': return e.cameraUnavailable;
+    case 'video-unloadable': return e.videoUnloadable;
+    case 'unplayable-video': return e.unplayableVideo(detail.name);
+    case 'track-too-short': return e.trackTooShort;
+    case 'no-photos': return e.noPhotos;
+    case 'no-canvas': return e.noCanvas;
+    case 'image-encoding': return e.imageEncoding;
+  }
+}
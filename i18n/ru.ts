@@ -0,0 +1,420 @@
+export interface PoseMessages {
+  name: string;
+  description: string;
+  match: string;
+  miss: string;
+}
+
+/**
+ * Russian catalog. It is the reference one: every other catalog has to match
+ * its shape, which the `Messages` type enforces.
+ */
+export const ru = {
+  language: 'Язык',
+  start: {
+    tagline: 'Система инициализирована. Совпадайте позы с высокой точностью. Теперь с 100% офлайн нейронной обработкой.',
+    highlightsOn: '🎬 Хайлайты ВКЛ',
+    highlightsOff: '🎞 Хайлайты ВЫКЛ',
+    mirror: '🪞 Зеркало и стороны',
+    sidesAnatomical: 'Мои лево/право',
+    sidesScreen: 'Как на экране',
+    mirroredTwins: 'Зеркальные двойники для односторонних поз',
+    difficulty: '📈 Сложность',
+    judge: '⚖️ Судья',
+    judgeNoKey: 'нет ключа API — офлайн-замена',
+    music: '🎵 Музыка',
+    analyzingTrack: 'Анализ ритма...',
+    loadTrack: 'Загрузить трек',
+    sound: '🔊 Звук',
+    soundOff: '🔇 Звук выключен',
+    announcePoses: 'Озвучивать позы',
+    beatHint: (bonus: number) => `Стены прибывают в такт. Поза, пойманная на бит, даёт +${bonus}% очков.`,
+    studio: '🎨 Студия поз',
+    replay: '▶ Повтор сессии',
+    routine: '💃 Хореография',
+    workout: '🏋️ Тренировка',
+    calibrate: '📏 Калибровка',
+    recalibrate: '📏 Перекалибровать',
+    activate: 'АКТИВИРОВАТЬ СИСТЕМУ',
+    connecting: 'УСТАНОВКА СВЯЗИ...'
+  },
+  judgeModes: {
+    offline: 'Офлайн',
+    hybrid: 'Гибрид',
+    gemini: 'Gemini'
+  },
+  difficulties: {
+    easy: 'Лёгкий',
+    normal: 'Норма',
+    hard: 'Хардкор'
+  },
+  seconds: (value: number | string) => `${value}с`,
+  camera: {
+    failed: 'СБОЙ КАМЕРЫ',
+    retry: 'ПОВТОРИТЬ',
+    trackerFailed: 'МОДЕЛЬ ПОЗ НЕ ЗАГРУЗИЛАСЬ',
+    trackerHint: 'Модель распознавания поз не запустилась. Перезагрузите страницу; подробности — в консоли браузера.',
+    lost: 'КАМЕРА ОТКЛЮЧЕНА',
+    lostHint: 'Подключите камеру снова — игра найдёт её сама.',
+    source: '🎥 Источник видео',
+    backToCamera: '← Вернуться к камере',
+    defaultCamera: 'Камера по умолчанию',
+    numbered: (n: number) => `Камера ${n}`,
+    otherVideoFile: 'Другой видеофайл',
+    videoFileInstead: 'Видеофайл вместо камеры',
+    resolutions: {
+      low: 'Низкое',
+      standard: 'Стандарт',
+      hd: 'HD'
+    }
+  },
+  hud: {
+    wallArrival: 'Прибытие стены',
+    replay: 'Повтор',
+    stop: 'Стоп',
+    score: 'Счёт',
+    level: (level: number) => `Ур. ${level}`,
+    combo: (multiplier: string) => `Комбо ×${multiplier}`,
+    sidesScreen: 'стороны как на экране',
+    sidesAnatomical: 'ваши лево и право',
+    fitSilhouette: 'ВПИШИТЕСЬ В СИЛУЭТ'
+  },
+  judging: 'АНАЛИЗ ПОЗЫ...',
+  result: {
+    match: 'СОВПАДЕНИЕ',
+    miss: 'РАССИНХРОН',
+    accuracy: 'Точность',
+    hold: 'Удержание',
+    stability: 'Стабильность',
+    balance: 'Равновесие',
+    gained: 'Набор',
+    combo: (multiplier: string) => `Комбо ×${multiplier}`,
+    onBeat: (bonus: number) => `🎵 В такт! +${bonus}%`,
+    bonusLife: '+1 жизнь за серию!',
+    recorded: (matched: boolean, score: number) => `В записи: ${matched ? 'совпадение' : 'рассинхрон'}, ${score}%`,
+    continue: 'ПРОДОЛЖИТЬ'
+  },
+  gameOver: {
+    error: 'ОШИБКА: СТРУКТУРНЫЙ СБОЙ',
+    title: 'РАССИНХРОН',
+    complete: 'СЕССИЯ ЗАВЕРШЕНА',
+    completeTitle: 'ФИНИШ',
+    performance: 'Индекс производительности',
+    newBest: '🏆 Новый личный рекорд!',
+    weakPoses: (player: string) => `${player} · слабые позы`,
+    daily: (key: string) => `Испытание дня ${key}`,
+    runCode: 'Код забега',
+    copy: 'Копировать',
+    repeat: 'Повторить',
+    restart: 'ПЕРЕЗАГРУЗКА',
+    saveRecording: '💾 Сохранить запись сессии'
+  },
+  gallery: {
+    title: 'Галерея сессии',
+    downloadSheet: '🖼 Контакт-лист',
+    downloadReel: '🎬 Скачать ролик',
+    assemblingReel: 'Сборка ролика...',
+    sheetTitle: (date: string) => `NEURAL PULSE · ${date}`
+  },
+  footer: {
+    neuralLink: 'Нейросвязь',
+    offline: 'ОФЛАЙН РЕЖИМ',
+    cloud: 'ОБЛАЧНЫЙ СУДЬЯ',
+    status: 'СТАТУС: БЕЗОПАСНО'
+  },
+  errors: {
+    trackUnreadable: 'Не удалось прочитать аудиофайл.',
+    unexpected: 'Что-то пошло не так. Попробуйте ещё раз.',
+    // Loaded files in the genitive, as in "файл записи сессии".
+    files: {
+      'recording': 'записи сессии',
+      'pose-pack': 'набора поз',
+      'routine': 'хореографии',
+      'workout': 'тренировки',
+      'config': 'настройки игры'
+    },
+    notJson: (file: string) => `Файл ${file} повреждён: это не JSON.`,
+    wrongFormat: (file: string) => `Это не файл ${file} Neural Pulse.`,
+    unsupportedVersion: (file: string, version: string) => `Версия файла ${file} не поддерживается: ${version}.`,
+    emptyFile: (file: string) => `Файл ${file} пуст.`,
+    invalidFrame: (item: number) => `Кадр ${item} в записи повреждён.`,
+    invalidEvent: (item: number) => `Событие ${item} в записи повреждено.`,
+    invalidPose: (item: number) => `Поза №${item} повреждена.`,
+    missingLimbs: (pose: string) => `Поза «${pose}»: нет правил для конечностей.`,
+    unknownLimb: (pose: string, limb: string) => `Поза «${pose}»: неизвестная конечность «${limb}».`,
+    invalidLimbRule: (pose: string, limb: string) => `Поза «${pose}»: у правила «${limb}» неверный угол, допуск или вес.`,
+    unknownJoint: (pose: string, joint: string) => `Поза «${pose}»: неизвестный сустав «${joint}».`,
+    invalidJointRule: (pose: string, joint: string) => `Поза «${pose}»: у правила «${joint}» неверный угол, допуск или вес.`,
+    invalidJoints: (pose: string) => `Поза «${pose}»: joints должен быть списком правил для суставов.`,
+    invalidStandOn: (pose: string) => `Поза «${pose}»: standOn должен быть "left" или "right".`,
+    invalidRelation: (pose: string) => `Поза «${pose}»: неверное правило взаимного положения.`,
+    unknownLandmark: (pose: string, landmark: string) => `Поза «${pose}»: неизвестная точка тела «${landmark}».`,
+    incompleteReference: (pose: string, landmark: string) => `Поза «${pose}»: в эталоне нет точки «${landmark}».`,
+    unknownPose: (item: number, pose: string) => `Пункт ${item}: неизвестная поза «${pose}».`,
+    invalidStepTiming: (item: number) => `Шаг ${item}: transitionMs и holdMs должны быть положительными длительностями.`,
+    unknownExercise: (item: number, exercise: string) => `Блок ${item}: неизвестное упражнение «${exercise}».`,
+    invalidSets: (item: number) => `Блок ${item}: sets — целое положительное число.`,
+    missingTarget: (item: number, exercise: string, target: string) => `Блок ${item}: для «${exercise}» нужно указать ${target}.`,
+    invalidRest: (item?: number) => `${item ? `Блок ${item}: ` : ''}restMs должно быть длительностью.`,
+    unknownDifficulty: (value: string) => `Неизвестная сложность «${value}».`,
+    unknownJudge: (value: string) => `Неизвестный судья «${value}».`,
+    emptyPlaylist: 'Список поз в настройке пуст.',
+    invalidOrder: 'order должен быть "sequence" или "shuffle".',
+    invalidWallTime: (min: number, item?: number) => `${item ? `Пункт ${item}: ` : ''}wallMs — не меньше ${min}.`,
+    invalidThreshold: (item?: number) => `${item ? `Пункт ${item}: ` : ''}threshold — от 1 до 100.`,
+    invalidLives: (max: number) => `lives — целое число от 1 до ${max}.`,
+    invalidMaxLives: 'maxLives — целое число не меньше lives.',
+    invalidWalls: 'walls — целое положительное число.',
+    invalidSeed: 'seed — целое число от 0 до 4294967295.',
+    damagedLink: 'Настройка игры в этой ссылке повреждена.',
+    invalidSeedCode: 'Код забега выглядит так: N-1Z141Z3.',
+    seedCodeRange: 'Код забега вне допустимого диапазона.',
+    cameraDenied: 'Доступ к камере запрещён. Разрешите его в настройках браузера.',
+    cameraNotFound: 'Камера не найдена.',
+    cameraBusy: 'Камера занята другим приложением.',
+    cameraUnavailable: 'Не удалось открыть камеру.',
+    videoUnloadable: 'Не удалось загрузить видео.',
+    unplayableVideo: (name: string) => `«${name}» не воспроизводится как видео.`,
+    trackTooShort: 'Трек слишком короткий, чтобы найти ритм.',
+    noPhotos: 'Нет фото для контакт-листа.',
+    noCanvas: 'Браузер не умеет рисовать на canvas.',
+    imageEncoding: 'Не удалось сохранить изображение.'
+  },
+  profiles: {
+    player: '👤 Игрок',
+    defaultName: 'Игрок 1',
+    newPlayer: 'Новый игрок',
+    add: 'Добавить',
+    highScores: '🏆 Таблица рекордов'
+  },
+  stats: {
+    empty: 'Сыграйте первую сессию, чтобы увидеть статистику.',
+    sessions: 'Сессии',
+    best: 'Рекорд',
+    walls: 'Стены',
+    pose: 'Поза',
+    success: 'Успех',
+    average: 'Средн.',
+    progress: 'Прогресс'
+  },
+  calibration: {
+    title: 'КАЛИБРОВКА',
+    ready: 'Отлично, замрите',
+    issues: {
+      'no-body': 'Встаньте перед камерой',
+      'too-close': 'Отойдите назад',
+      'too-far': 'Подойдите ближе',
+      'step-left': 'Шагните влево',
+      'step-right': 'Шагните вправо',
+      'joints-hidden': 'Камера не видит часть тела'
+    },
+    bodyParts: {
+      head: 'голова',
+      leftArm: 'левая рука',
+      rightArm: 'правая рука',
+      leftLeg: 'левая нога',
+      rightLeg: 'правая нога'
+    },
+    hidden: (parts: string) => `Не видно: ${parts}`,
+    hint: 'Встаньте так, чтобы в кадре были голова и ступни, руки опущены вдоль тела.',
+    cancel: 'Отмена'
+  },
+  correction: {
+    joints: {
+      leftElbow: 'Левый локоть',
+      rightElbow: 'Правый локоть',
+      leftWrist: 'Левое запястье',
+      rightWrist: 'Правое запястье',
+      leftKnee: 'Левое колено',
+      rightKnee: 'Правое колено',
+      leftAnkle: 'Левая лодыжка',
+      rightAnkle: 'Правая лодыжка'
+    } as Record<string, string>,
+    directions: {
+      high: 'выше нужного',
+      low: 'ниже нужного',
+      out: 'дальше от тела',
+      in: 'ближе к телу'
+    },
+    deviation: (joint: string, degrees: number, direction: string) => `${joint} на ${degrees}° ${direction}`,
+    allGood: 'Все суставы на месте'
+  },
+  studio: {
+    title: 'СТУДИЯ',
+    titleAccent: 'ПОЗ',
+    back: 'НАЗАД',
+    name: 'Название позы',
+    description: 'Описание для игрока',
+    tolerance: 'Допуск',
+    capture: 'ЗАХВАТ',
+    holdStill: (seconds: number) => `ЗАМРИТЕ: ${seconds}`,
+    recording: 'ЗАПИСЬ...',
+    save: 'СОХРАНИТЬ',
+    noReference: 'нет эталона',
+    bodyNotFound: 'Тело не найдено целиком. Отойдите назад и повторите.',
+    myPoses: (count: number) => `Мои позы: ${count}`,
+    import: 'Импорт',
+    export: 'Экспорт',
+    remove: 'УДАЛИТЬ'
+  },
+  routine: {
+    step: (index: number, total: number) => `шаг ${index}/${total}`,
+    transition: 'ПЕРЕХОД',
+    hold: 'ДЕРЖИТЕ!',
+    next: 'Далее:',
+    notCaught: 'не поймана',
+    onBeat: 'точно в такт',
+    offset: (early: boolean, seconds: string) => `${early ? 'раньше' : 'позже'} на ${seconds}с`,
+    complete: 'ХОРЕОГРАФИЯ ЗАВЕРШЕНА',
+    total: 'Сумма',
+    average: 'Среднее',
+    poses: 'Позы',
+    stepColumn: 'Шаг',
+    form: 'Форма',
+    timing: 'Тайминг',
+    points: 'Очки',
+    missed: 'мимо',
+    again: 'ЕЩЁ РАЗ',
+    menu: 'МЕНЮ'
+  },
+  workout: {
+    set: (index: number, total: number) => `подход ${index}/${total}`,
+    reps: (done: number, target: number) => `${done} / ${target}`,
+    held: (seconds: string, target: string) => `${seconds} / ${target}с`,
+    holdHint: 'Держите позицию',
+    repHint: 'Выполняйте повторения',
+    rest: 'ОТДЫХ',
+    upNext: 'Далее:',
+    skip: 'Пропустить',
+    complete: 'ТРЕНИРОВКА ЗАВЕРШЕНА',
+    sets: 'Подходы',
+    activeTime: 'Время под нагрузкой',
+    exercise: 'Упражнение',
+    total: 'Итого',
+    repsUnit: (count: number) => `${count} повт.`,
+    secondsUnit: (seconds: string) => `${seconds}с`,
+    again: 'ЕЩЁ РАЗ',
+    menu: 'МЕНЮ'
+  },
+  exercises: {
+    'squat': { name: 'Приседания', hint: 'Опуститесь до угла в коленях меньше 110° и встаньте прямо.' },
+    'lunge': { name: 'Выпады', hint: 'Шагните вперёд и опуститесь, пока переднее колено не согнётся почти под прямым углом.' },
+    'jumping-jack': { name: 'Джампинг-джек', hint: 'Прыжком расставьте ноги и поднимите руки над головой, затем вернитесь.' },
+    'arm-raise': { name: 'Подъём рук', hint: 'Поднимите прямые руки через стороны над головой и опустите.' },
+    'wall-sit': { name: 'Стульчик', hint: 'Присядьте, как на невидимый стул, и держите колени согнутыми.' },
+    't-hold': { name: 'Руки в стороны', hint: 'Держите прямые руки горизонтально в стороны.' }
+  },
+  config: {
+    title: '📋 Настройка сессии',
+    load: '📋 Загрузить настройку игры',
+    untitled: 'Своя сессия',
+    poses: (count: number) => `поз: ${count}`,
+    inOrder: 'по порядку',
+    shuffled: 'вперемешку',
+    walls: (count: number) => `стен: ${count}`,
+    copyLink: '🔗 Ссылка',
+    copied: 'Скопировано',
+    remove: 'Убрать'
+  },
+  seed: {
+    daily: '📅 Испытание дня',
+    placeholder: 'Код забега, напр. N-1Z141Z3'
+  },
+  feedback: {
+    noBody: 'Тело не найдено. Отойдите назад!',
+    unsteady: 'Почти! Держите позу ровно, пока не придёт стена.',
+    offBalance: 'Почти! Удержите равновесие на опорной ноге.',
+    // For player-made poses, which have no catalog entry.
+    customMatch: 'В точку!',
+    customMiss: (name: string) => `Повторите форму «${name}».`
+  },
+  // Built-in poses by id. Player-made poses keep the text they were saved with.
+  poses: {
+    't-pose': {
+      name: 'Т-Поза',
+      description: 'Стоя прямо, вытяните обе руки горизонтально в стороны.',
+      match: 'Идеальная буква Т!',
+      miss: 'Вытяните руки полностью в стороны.'
+    },
+    'victory-v': {
+      name: 'Победа',
+      description: 'Поднимите обе руки высоко вверх, образуя букву V.',
+      match: 'Победа за вами!',
+      miss: 'Поднимите руки высоко буквой V!'
+    },
+    'hands-on-hips': {
+      name: 'Герой',
+      description: 'Положите обе руки твёрдо на бёдра, локти в стороны.',
+      match: 'Настоящий герой!',
+      miss: 'Положите руки на бёдра.'
+    },
+    'hands-on-head': {
+      name: 'Шок',
+      description: 'Положите обе руки на верхнюю часть головы.',
+      match: 'Мозг взорван!',
+      miss: 'Руки на голову!'
+    },
+    'right-arm-up': {
+      name: 'Правая вверх',
+      description: 'Поднимите только правую руку прямо вверх.',
+      match: 'Дотянулись до звёзд!',
+      miss: 'Поднимите только правую руку.'
+    },
+    'arms-crossed': {
+      name: 'Сила',
+      description: 'Скрестите руки на груди.',
+      match: 'Поза силы активна!',
+      miss: 'Скрестите руки на груди.'
+    },
+    'left-arm-up': {
+      name: 'Левая вверх',
+      description: 'Поднимите только левую руку прямо вверх.',
+      match: 'Дотянулись до звёзд!',
+      miss: 'Поднимите только левую руку.'
+    },
+    'hands-up-knees': {
+      name: 'Тачдаун',
+      description: 'Слегка согните колени и поднимите обе руки прямо вверх.',
+      match: 'Тачдаун!',
+      miss: 'Согните колени и выбросьте обе руки вверх.'
+    },
+    'arms-wide': {
+      name: 'Полёт',
+      description: 'Стойте ногами на ширине плеч, руки раскинуты широко как крылья.',
+      match: 'Взлёт разрешён!',
+      miss: 'Ноги врозь, раскиньте руки как крылья.'
+    },
+    'one-hand-waist': {
+      name: 'Мыслитель',
+      description: 'Положите одну руку на подбородок, как будто задумались.',
+      match: 'Обнаружены глубокие мысли.',
+      miss: 'Положите одну руку на подбородок.'
+    },
+    'squat-arms': {
+      name: 'Сумоист',
+      description: 'Сделайте неглубокое приседание с руками вместе перед грудью.',
+      match: 'Сила сумо!',
+      miss: 'Опуститесь в широкий присед, ладони вместе у груди.'
+    },
+    'flamingo': {
+      name: 'Фламинго',
+      description: 'Стойте на одной ноге, другую согните и поднимите колено, руки в стороны.',
+      match: 'Идеальное равновесие!',
+      miss: 'Встаньте на одну ногу и поднимите колено другой повыше.'
+    },
+    'lunge': {
+      name: 'Выпад',
+      description: 'Сделайте широкий шаг вперёд и опуститесь, согнув оба колена, руки вверх.',
+      match: 'Мощный выпад!',
+      miss: 'Шагните вперёд и опуститесь, пока не согнутся оба колена.'
+    },
+    'star-jump': {
+      name: 'Звезда',
+      description: 'Прыжком расставьте прямые ноги широко и поднимите руки по диагонали вверх — звезда.',
+      match: 'Сияющая звезда!',
+      miss: 'Расставьте прямые ноги широко, руки вверх буквой X.'
+    }
+  } as Record<string, PoseMessages>
+};
+
+export type Messages = typeof ru;
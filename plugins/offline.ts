@@ -0,0 +1,147 @@
+/**
+ * Vite plugins that let the game run with no network at all: MediaPipe's wasm
+ * and pose model are served from our own origin instead of a CDN, and a
+ * service worker precaches every file the build produces.
+ */
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { Plugin } from 'vite';
+
+// URL prefix the MediaPipe files are served under; the paths in services/poseTracker.ts point here.
+const MEDIAPIPE_PREFIX = 'mediapipe';
+
+// The worker loads the ES module build of the wasm, so the classic builds are left out.
+const MEDIAPIPE_FILES: Record<string, string[]> = {
+  '@mediapipe/tasks-vision': ['wasm/vision_wasm_module_internal.js', 'wasm/vision_wasm_module_internal.wasm']
+};
+
+// The pose model isn't published to npm, so it is kept under models/ together
+// with its SHA-256 (see scripts/fetch-model.ts). Builds never touch the
+// network. The file is served at the same path it has in the repo.
+export const MODEL_PATH = 'models/pose_landmarker_lite.task';
+export const MODEL_CHECKSUM_PATH = `${MODEL_PATH}.sha256`;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.wasm': 'application/wasm'
+};
+
+// Some packages don't export package.json, so they are looked up on disk.
+const packageDir = (name: string) => path.resolve('node_modules', name);
+
+// '@mediapipe/tasks-vision', 'wasm/x.js' → 'mediapipe/tasks-vision/x.js'
+const servedPath = (name: string, file: string) => `${MEDIAPIPE_PREFIX}/${name.split('/')[1]}/${path.basename(file)}`;
+
+export const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+const MISSING_MODEL = `${MODEL_PATH} is missing, so pose tracking won't start. Run \`npm run fetch:model\` once with network access.`;
+
+/**
+ * Path of the vendored model after checking it against its pinned checksum,
+ * or null when there is no model yet. A model that is there but can't be
+ * verified throws, so a corrupted copy never ships.
+ */
+function verifiedModel(): string | null {
+  const model = path.resolve(MODEL_PATH);
+  const checksum = path.resolve(MODEL_CHECKSUM_PATH);
+  if (!fs.existsSync(model)) return null;
+  if (!fs.existsSync(checksum)) {
+    throw new Error(`${MODEL_CHECKSUM_PATH} is missing. Run \`npm run fetch:model\` to pin the model again.`);
+  }
+  const expected = fs.readFileSync(checksum, 'utf8').trim().split(/\s+/)[0];
+  const actual = sha256(fs.readFileSync(model));
+  if (actual !== expected) {
+    throw new Error(`${MODEL_PATH} does not match ${MODEL_CHECKSUM_PATH} (sha256 ${actual}, expected ${expected}).`);
+  }
+  return model;
+}
+
+function wasmFiles(): { url: string; source: string }[] {
+  return Object.entries(MEDIAPIPE_FILES).flatMap(([name, files]) =>
+    files.map(file => ({ url: servedPath(name, file), source: path.join(packageDir(name), file) }))
+  );
+}
+
+/**
+ * Serves the MediaPipe files in dev and copies them into the build.
+ */
+export function mediapipeAssets(): Plugin {
+  return {
+    name: 'neural-pulse:mediapipe-assets',
+    configureServer(server) {
+      const files = new Map(wasmFiles().map(file => [`/${file.url}`, file.source]));
+      // Dev keeps running without the model; the tracker then reports it can't start.
+      const model = verifiedModel();
+      if (model) files.set(`/${MODEL_PATH}`, model);
+      else server.config.logger.warn(`[neural-pulse] ${MISSING_MODEL}`);
+      server.middlewares.use((req, res, next) => {
+        const source = files.get((req.url ?? '').split('?')[0]);
+        if (!source) return next();
+        res.setHeader('Content-Type', CONTENT_TYPES[path.extname(source)] ?? 'application/octet-stream');
+        fs.createReadStream(source).pipe(res);
+      });
+    },
+    generateBundle() {
+      const model = verifiedModel();
+      if (!model) this.warn(MISSING_MODEL);
+      for (const file of [...wasmFiles(), ...(model ? [{ url: MODEL_PATH, source: model }] : [])]) {
+        this.emitFile({ type: 'asset', fileName: file.url, source: fs.readFileSync(file.source) });
+      }
+    }
+  };
+}
+
+// Files copied from public/ never pass through the bundle, so they are listed here.
+const PUBLIC_FILES = ['manifest.webmanifest', 'icon.svg'];
+
+const serviceWorkerSource = (cacheName: string, urls: string[]) => `// Generated at build time by plugins/offline.ts
+const CACHE = ${JSON.stringify(cacheName)};
+const PRECACHE = ${JSON.stringify(urls, null, 2)};
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  // Navigations always get the app shell, whatever the path or query string
+  const lookup = request.mode === 'navigate' ? './index.html' : request;
+  event.respondWith(caches.match(lookup, { ignoreSearch: true }).then(cached => cached ?? fetch(request)));
+});
+`;
+
+/**
+ * Emits sw.js precaching the whole build. Runs after every other plugin so
+ * the emitted MediaPipe files are already in the bundle.
+ */
+export function serviceWorker(): Plugin {
+  return {
+    name: 'neural-pulse:service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const files = [...Object.keys(bundle), ...PUBLIC_FILES].sort();
+      // Hashing contents, not just names, also catches changes to unhashed files like index.html
+      const hash = createHash('sha256');
+      for (const file of files) {
+        const output = bundle[file];
+        hash.update(file);
+        if (output) hash.update(output.type === 'chunk' ? output.code : output.source);
+        else hash.update(fs.readFileSync(path.resolve('public', file)));
+      }
+      const version = hash.digest('hex').slice(0, 12);
+      const urls = ['./', ...files.map(file => `./${file}`)];
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: serviceWorkerSource(`neural-pulse-${version}`, urls) });
+    }
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Headless accuracy report for the offline evaluator.
+ *
+ *   npm run bench -- [--synthetic] [fixture files or directories]
+ *
+ * Every sample is judged against every pose in POSES, exactly as a wall
+ * would be judged in the game. Defaults to the recorded fixtures in
+ * fixtures/; --synthetic adds the generated seed sets, which are reported
+ * separately since they only show the evaluator agreeing with its own
+ * rules. With no recorded fixtures yet, the seed sets are judged instead.
+ */
+import { POSES } from '../constants';
+import { MatchResult } from '../types';
+import { evaluatePoseWindow } from '../services/poseWindow';
+import { collectFixtureFiles, readFixtureFile, NO_POSE, RECORDED_FIXTURES, SYNTHETIC_FIXTURES } from './fixtures';
+
+interface JudgedSample {
+  id: string;
+  label: string;
+  results: Record<string, MatchResult>;
+  predicted: string;
+  synthetic: boolean;
+}
+
+const BUCKET_SIZE = 10;
+
+function judgeSamples(files: string[]): JudgedSample[] {
+  const judged: JudgedSample[] = [];
+  for (const file of files) {
+    const fixture = readFixtureFile(file);
+    for (const sample of fixture.samples) {
+      const now = sample.frames[sample.frames.length - 1]?.t ?? 0;
+      const results: Record<string, MatchResult> = {};
+      for (const pose of POSES) {
+        results[pose.id] = evaluatePoseWindow(sample.frames, pose, now, { aspectRatio: fixture.aspectRatio });
+      }
+
+      // The pose the game would most likely credit: best score among matches.
+      let predicted = NO_POSE;
+      for (const pose of POSES) {
+        const result = results[pose.id];
+        if (result.matched && (predicted === NO_POSE || result.score > results[predicted].score)) {
+          predicted = pose.id;
+        }
+      }
+      judged.push({ id: sample.id, label: sample.label, results, predicted, synthetic: fixture.synthetic === true });
+    }
+  }
+  return judged;
+}
+
+const pct = (value: number) => (Number.isNaN(value) ? '   -' : `${Math.round(value * 100)}%`.padStart(4));
+
+function printPrecisionRecall(samples: JudgedSample[]) {
+  console.log('\nPER-POSE PRECISION / RECALL');
+  console.log(`${'pose'.padEnd(16)} ${'pos'.padStart(4)} ${'neg'.padStart(4)} ${'prec'.padStart(5)} ${'rec'.padStart(5)}`);
+  for (const pose of POSES) {
+    let tp = 0, fp = 0, fn = 0, positives = 0;
+    for (const sample of samples) {
+      const matched = sample.results[pose.id].matched;
+      const isPositive = sample.label === pose.id;
+      if (isPositive) positives++;
+      if (isPositive && matched) tp++;
+      if (isPositive && !matched) fn++;
+      if (!isPositive && matched) fp++;
+    }
+    const precision = tp / (tp + fp);
+    const recall = tp / (tp + fn);
+    console.log(`${pose.id.padEnd(16)} ${String(positives).padStart(4)} ${String(samples.length - positives).padStart(4)} ${pct(precision).padStart(5)} ${pct(recall).padStart(5)}`);
+  }
+}
+
+function printConfusionMatrix(samples: JudgedSample[]) {
+  const labels = [...POSES.map(pose => pose.id), NO_POSE];
+  const short = (id: string) => id.slice(0, 6).padStart(7);
+  console.log('\nCONFUSION MATRIX (rows: performed, columns: credited)');
+  console.log(`${''.padEnd(16)}${labels.map(short).join('')}`);
+  for (const actual of labels) {
+    const row = samples.filter(sample => sample.label === actual);
+    if (row.length === 0) continue;
+    const counts = labels.map(predicted => row.filter(sample => sample.predicted === predicted).length);
+    console.log(`${actual.padEnd(16)}${counts.map(count => String(count || '.').padStart(7)).join('')}`);
+  }
+}
+
+function printScoreDistribution(samples: JudgedSample[]) {
+  const buckets = 100 / BUCKET_SIZE + 1;
+  const histogram = (scores: number[]) => {
+    const counts = new Array(buckets).fill(0);
+    scores.forEach(score => counts[Math.min(buckets - 1, Math.floor(score / BUCKET_SIZE))]++);
+    return counts.map(count => (count === 0 ? '.' : count > 9 ? '#' : String(count))).join('');
+  };
+  const mean = (scores: number[]) => (scores.length ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0);
+
+  console.log(`\nSCORE DISTRIBUTION (buckets of ${BUCKET_SIZE}, 0 -> 100; # = 10+)`);
+  console.log(`${'pose'.padEnd(16)} ${'positives'.padEnd(buckets)} mean  ${'negatives'.padEnd(buckets)} mean`);
+  for (const pose of POSES) {
+    const positives = samples.filter(s => s.label === pose.id).map(s => s.results[pose.id].score);
+    const negatives = samples.filter(s => s.label !== pose.id).map(s => s.results[pose.id].score);
+    console.log(`${pose.id.padEnd(16)} ${histogram(positives).padEnd(buckets)} ${String(mean(positives)).padStart(4)}  ${histogram(negatives).padEnd(buckets)} ${String(mean(negatives)).padStart(4)}`);
+  }
+}
+
+function printReport(title: string, samples: JudgedSample[]) {
+  console.log(`\n=== ${title}: ${samples.length} samples ===`);
+  const missing = POSES.filter(pose => !samples.some(sample => sample.label === pose.id));
+  if (missing.length) {
+    console.log(`No positive samples for: ${missing.map(pose => pose.id).join(', ')}`);
+  }
+  if (!samples.some(sample => sample.label === NO_POSE)) {
+    console.log(`No "${NO_POSE}" samples, so false credits outside the game's poses go unmeasured.`);
+  }
+
+  printPrecisionRecall(samples);
+  printConfusionMatrix(samples);
+  printScoreDistribution(samples);
+
+  const correct = samples.filter(sample => sample.predicted === sample.label).length;
+  console.log(`\n${title}: ${correct}/${samples.length} samples credited to the right pose (${pct(correct / samples.length).trim()}).`);
+}
+
+const args = process.argv.slice(2);
+const withSynthetic = args.includes('--synthetic');
+const paths = args.filter(arg => arg !== '--synthetic');
+let files = collectFixtureFiles([
+  ...(paths.length ? paths : [RECORDED_FIXTURES]),
+  ...(withSynthetic ? [SYNTHETIC_FIXTURES] : [])
+]);
+// A fresh checkout has only the seed sets; judge those rather than nothing
+if (files.length === 0 && paths.length === 0) {
+  console.log(`No recorded fixtures in ${RECORDED_FIXTURES}/ yet, so only the synthetic seed sets are judged.`);
+  files = collectFixtureFiles([SYNTHETIC_FIXTURES]);
+}
+const samples = judgeSamples(files);
+const recorded = samples.filter(sample => !sample.synthetic);
+const synthetic = samples.filter(sample => sample.synthetic);
+
+console.log(`Judged ${samples.length} samples from ${files.length} fixture file(s) against ${POSES.length} poses.`);
+if (recorded.length) {
+  printReport('Recorded', recorded);
+} else {
+  console.log(`\nNo recorded fixtures found. Extract some from saved sessions with scripts/extract-fixtures.ts into ${RECORDED_FIXTURES}/.`);
+}
+if (synthetic.length) {
+  printReport('Synthetic (not a measure of real accuracy)', synthetic);
+}
+if (!samples.length) process.exit(1);
@@ -0,0 +1,68 @@
+/**
+ * Turns recorded sessions into benchmark fixtures.
+ *
+ *   npx tsx scripts/extract-fixtures.ts out.json session-1.json [session-2.json ...]
+ *
+ * Every judged wall becomes one sample holding the frames of the judging
+ * window, labelled with the pose that was asked for. Players don't always
+ * do what the wall asks, so review the labels (or set them to "none")
+ * before committing the file.
+ */
+import fs from 'fs';
+import { Landmark } from '../types';
+import { JUDGE_WINDOW_MS } from '../constants';
+import { LANDMARK_INDEX } from '../services/poseService';
+import { parseRecording } from '../services/sessionRecording';
+import { framesInWindow } from '../services/poseWindow';
+import { FixtureFile, FixtureSample, FIXTURE_FORMAT, FIXTURE_VERSION } from './fixtures';
+
+const USED_INDICES = new Set(Object.values(LANDMARK_INDEX));
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// Only the landmarks the evaluator reads are kept, which keeps fixtures small.
+function compact(landmarks: Landmark[]): (Landmark | null)[] {
+  return landmarks.map((lm, i) => (USED_INDICES.has(i) && lm
+    ? { x: round3(lm.x), y: round3(lm.y), visibility: lm.visibility !== undefined ? round3(lm.visibility) : undefined }
+    : null));
+}
+
+const [output, ...inputs] = process.argv.slice(2);
+if (!output || inputs.length === 0) {
+  console.error('Usage: tsx scripts/extract-fixtures.ts <out.json> <session.json>...');
+  process.exit(1);
+}
+
+const samples: FixtureSample[] = [];
+let aspectRatio = 0;
+
+for (const input of inputs) {
+  const recording = parseRecording(fs.readFileSync(input, 'utf8'));
+  if (aspectRatio && Math.abs(aspectRatio - recording.aspectRatio) > 0.01) {
+    console.error(`${input} was recorded at a different aspect ratio; extract it into its own file.`);
+    process.exit(1);
+  }
+  aspectRatio = recording.aspectRatio;
+
+  let poseId: string | null = null;
+  recording.events.forEach((event, i) => {
+    if (event.type === 'round-start') poseId = event.pose.id;
+    if (event.type !== 'judge' || !poseId) return;
+    const frames = framesInWindow(recording.frames, event.t, JUDGE_WINDOW_MS);
+    if (frames.length === 0) return;
+    samples.push({
+      id: `${recording.startedAt}#${i}`,
+      label: poseId,
+      frames: frames.map(frame => ({ t: frame.t, landmarks: compact(frame.landmarks) as Landmark[] }))
+    });
+  });
+}
+
+const fixture: FixtureFile = {
+  format: FIXTURE_FORMAT,
+  version: FIXTURE_VERSION,
+  source: `Extracted from ${inputs.length} recorded session(s)`,
+  aspectRatio,
+  samples
+};
+fs.writeFileSync(output, JSON.stringify(fixture));
+console.log(`Wrote ${samples.length} samples to ${output}.`);
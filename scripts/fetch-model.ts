@@ -0,0 +1,33 @@
+/**
+ * Downloads the pose model into models/ and pins its checksum.
+ *
+ *   npm run fetch:model
+ *
+ * Only maintainers run this, when adding or upgrading the model; commit both
+ * files it writes. Builds read the committed copy and never download it.
+ */
+import fs from 'fs';
+import path from 'path';
+import { MODEL_PATH, MODEL_CHECKSUM_PATH, sha256 } from '../plugins/offline';
+
+// Versioned URL, so the same bytes come back every time.
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task';
+
+let response: Response;
+try {
+  response = await fetch(MODEL_URL);
+} catch (err) {
+  console.error(`Could not reach ${MODEL_URL}: ${(err as Error).cause ?? err}`);
+  process.exit(1);
+}
+if (!response.ok) {
+  console.error(`Pose model download failed with HTTP ${response.status}.`);
+  process.exit(1);
+}
+const model = Buffer.from(await response.arrayBuffer());
+const checksum = sha256(model);
+
+fs.mkdirSync(path.dirname(MODEL_PATH), { recursive: true });
+fs.writeFileSync(MODEL_PATH, model);
+fs.writeFileSync(MODEL_CHECKSUM_PATH, `${checksum}  ${path.basename(MODEL_PATH)}\n`);
+console.log(`Wrote ${MODEL_PATH} (${model.length} bytes, sha256 ${checksum}). Commit it with ${MODEL_CHECKSUM_PATH}.`);
@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import { PoseFrame } from '../types';
+
+export const FIXTURE_FORMAT = 'neural-pulse-fixtures';
+export const FIXTURE_VERSION = 1;
+
+// Label for samples where the player isn't doing any of the game's poses.
+export const NO_POSE = 'none';
+
+// Recorded fixtures live in fixtures/; generated seed sets in its synthetic/ folder.
+export const RECORDED_FIXTURES = 'fixtures';
+export const SYNTHETIC_FIXTURES = 'fixtures/synthetic';
+
+export interface FixtureSample {
+  id: string;
+  // POSES id the player was performing, or NO_POSE.
+  label: string;
+  // Frames leading up to the judging moment, which is the last frame's time.
+  frames: PoseFrame[];
+}
+
+export interface FixtureFile {
+  format: typeof FIXTURE_FORMAT;
+  version: number;
+  // Generated rather than recorded. Reported apart, never as real accuracy.
+  synthetic?: boolean;
+  source: string;
+  aspectRatio: number;
+  samples: FixtureSample[];
+}
+
+export function readFixtureFile(file: string): FixtureFile {
+  const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (data?.format !== FIXTURE_FORMAT || typeof data.version !== 'number' || data.version > FIXTURE_VERSION) {
+    throw new Error(`${file} is not a fixture file this runner understands.`);
+  }
+  return data as FixtureFile;
+}
+
+/**
+ * Every fixture file under the given paths; directories are read non-recursively.
+ */
+export function collectFixtureFiles(paths: string[]): string[] {
+  return paths.flatMap(p => {
+    if (!fs.statSync(p).isDirectory()) return [p];
+    return fs.readdirSync(p)
+      .filter(name => name.endsWith('.json'))
+      .sort()
+      .map(name => path.join(p, name));
+  });
+}
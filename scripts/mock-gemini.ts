@@ -0,0 +1,62 @@
+/**
+ * Local stand-in for the Gemini generateContent endpoint, for exercising the
+ * cloud and hybrid judges without network access.
+ *
+ *   npm run mock:gemini
+ *   GEMINI_API_KEY=mock GEMINI_BASE_URL=http://localhost:8787 npm run dev
+ *
+ * Behaviour is tuned with environment variables:
+ *   MOCK_PORT          port to listen on (8787)
+ *   MOCK_LATENCY_MS    delay before answering (600)
+ *   MOCK_FAILURE_RATE  share of requests answered with HTTP 500, 0-1 (0)
+ *   MOCK_VERDICT       'match', 'miss' or 'random' (random)
+ */
+import http from 'http';
+
+const PORT = Number(process.env.MOCK_PORT ?? 8787);
+const LATENCY_MS = Number(process.env.MOCK_LATENCY_MS ?? 600);
+const FAILURE_RATE = Number(process.env.MOCK_FAILURE_RATE ?? 0);
+const VERDICT = process.env.MOCK_VERDICT ?? 'random';
+
+function verdict() {
+  const matched = VERDICT === 'match' || (VERDICT === 'random' && Math.random() < 0.5);
+  const score = matched ? 70 + Math.round(Math.random() * 30) : Math.round(Math.random() * 50);
+  return { matched, score, feedback: matched ? 'Mock judge approves!' : 'Mock judge is not convinced.' };
+}
+
+const server = http.createServer((req, res) => {
+  // The browser calls from the Vite dev server's origin with an API key header.
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (req.method !== 'POST' || !req.url?.includes(':generateContent')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: 404, message: `No mock for ${req.method} ${req.url}` } }));
+    return;
+  }
+
+  req.resume();
+  req.on('end', () => {
+    setTimeout(() => {
+      if (Math.random() < FAILURE_RATE) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { code: 500, message: 'Mock failure', status: 'INTERNAL' } }));
+        return;
+      }
+      const body = {
+        candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(verdict()) }] }, finishReason: 'STOP' }]
+      };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    }, LATENCY_MS);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Gemini listening on http://localhost:${PORT} (latency ${LATENCY_MS} ms, failure rate ${FAILURE_RATE}, verdict ${VERDICT})`);
+});
@@ -0,0 +1,175 @@
+/**
+ * Tempo and beat-grid detection for local music files, plus a small cache so
+ * each track is only analysed once.
+ */
+import { AppError } from "./errors";
+
+export interface BeatAnalysis {
+  bpm: number;
+  // Time of the first beat, in seconds from the start of the track.
+  offset: number;
+  duration: number;
+}
+
+const CACHE_KEY = 'neural-pulse.beat-cache';
+const CACHE_VERSION = 1;
+const CACHE_LIMIT = 20;
+
+// Onset envelope resolution: energy is measured over hops of this many seconds.
+const HOP_SECONDS = 0.01;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+// Tempo candidates are weighted towards this, since half and double tempos score alike.
+const PREFERRED_BPM = 120;
+// How close to a beat, in seconds, a move has to land to count as on the beat.
+const ON_BEAT_WINDOW = 0.12;
+
+export const beatPeriod = (analysis: BeatAnalysis) => 60 / analysis.bpm;
+
+function onsetEnvelope(buffer: AudioBuffer): Float32Array {
+  const hop = Math.max(1, Math.round(buffer.sampleRate * HOP_SECONDS));
+  const frames = Math.floor(buffer.length / hop);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  const energy = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = f * hop; i < (f + 1) * hop; i++) {
+      let sample = 0;
+      for (const channel of channels) sample += channel[i];
+      sum += sample * sample;
+    }
+    energy[f] = Math.log1p(1000 * sum / hop);
+  }
+
+  // Rises in loudness mark note onsets; falls carry no rhythm information.
+  const envelope = new Float32Array(frames);
+  for (let f = 1; f < frames; f++) {
+    envelope[f] = Math.max(0, energy[f] - energy[f - 1]);
+  }
+  return envelope;
+}
+
+function estimatePeriod(envelope: Float32Array): number {
+  const minLag = Math.floor(60 / MAX_BPM / HOP_SECONDS);
+  const maxLag = Math.ceil(60 / MIN_BPM / HOP_SECONDS);
+
+  const correlation = (lag: number) => {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    return sum / (envelope.length - lag);
+  };
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  const scores: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = 60 / (lag * HOP_SECONDS);
+    const weight = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+    const score = correlation(lag) * weight;
+    scores[lag] = score;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation between neighbouring lags for a sub-hop period.
+  const left = scores[bestLag - 1];
+  const right = scores[bestLag + 1];
+  if (left !== undefined && right !== undefined) {
+    const denominator = left - 2 * bestScore + right;
+    if (denominator < 0) return bestLag + 0.5 * (left - right) / denominator;
+  }
+  return bestLag;
+}
+
+function estimatePhase(envelope: Float32Array, period: number): number {
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+  for (let phase = 0; phase < period; phase++) {
+    let score = 0;
+    for (let t = phase; t < envelope.length; t += period) score += envelope[Math.round(t)] ?? 0;
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+  return bestPhase;
+}
+
+/**
+ * Estimates tempo and beat phase from the onset envelope's autocorrelation.
+ */
+export function analyzeBeats(buffer: AudioBuffer): BeatAnalysis {
+  const envelope = onsetEnvelope(buffer);
+  if (envelope.length < 2 * 60 / MIN_BPM / HOP_SECONDS) {
+    throw new AppError({ code: 'track-too-short' }, "Track is too short to find a beat.");
+  }
+  const period = estimatePeriod(envelope);
+  const phase = estimatePhase(envelope, period);
+  return {
+    bpm: Math.round(60 / (period * HOP_SECONDS) * 10) / 10,
+    offset: Math.round(phase * HOP_SECONDS * 1000) / 1000,
+    duration: buffer.duration
+  };
+}
+
+/**
+ * Seconds from `songTime` (within the track) until the first beat at least
+ * `minLead` seconds away. Past the end of the track the grid restarts from
+ * the top, as the track loops.
+ */
+export function secondsUntilBeat(analysis: BeatAnalysis, songTime: number, minLead: number): number {
+  const period = beatPeriod(analysis);
+  const target = songTime + minLead;
+  let beat = analysis.offset + Math.ceil((target - analysis.offset) / period) * period;
+  if (beat >= analysis.duration) {
+    beat = analysis.duration + analysis.offset;
+    while (beat < target) beat += period;
+  }
+  return beat - songTime;
+}
+
+/**
+ * Distance in seconds from `songTime` to the closest beat.
+ */
+export function distanceToBeat(analysis: BeatAnalysis, songTime: number): number {
+  const period = beatPeriod(analysis);
+  const local = songTime % analysis.duration;
+  const phase = (((local - analysis.offset) % period) + period) % period;
+  return Math.min(phase, period - phase);
+}
+
+export function isOnBeat(analysis: BeatAnalysis, songTime: number): boolean {
+  return distanceToBeat(analysis, songTime) <= ON_BEAT_WINDOW;
+}
+
+const trackKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+function readCache(): Record<string, BeatAnalysis> {
+  try {
+    const data = JSON.parse(localStorage.getItem(CACHE_KEY) ?? 'null');
+    return data?.version === CACHE_VERSION ? data.tracks : {};
+  } catch (e) {
+    return {};
+  }
+}
+
+export function getCachedAnalysis(file: File): BeatAnalysis | null {
+  return readCache()[trackKey(file)] ?? null;
+}
+
+export function cacheAnalysis(file: File, analysis: BeatAnalysis): void {
+  // Insertion order doubles as age, so the oldest tracks are dropped first.
+  const tracks = { ...readCache() };
+  delete tracks[trackKey(file)];
+  tracks[trackKey(file)] = analysis;
+  const keys = Object.keys(tracks);
+  keys.slice(0, Math.max(0, keys.length - CACHE_LIMIT)).forEach(key => delete tracks[key]);
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify({ version: CACHE_VERSION, tracks }));
+  } catch (e) {
+    console.error("Beat Cache Save Error:", e);
+  }
+}
@@ -0,0 +1,92 @@
+import { Landmark, LandmarkName, PoseFrame, BodyCalibration } from "../types";
+import { LANDMARK_INDEX } from "./poseService";
+
+// Joints every pose in the game may need, so all of them must be in frame.
+const REQUIRED_JOINTS: LandmarkName[] = [
+  'nose',
+  'leftShoulder', 'rightShoulder', 'leftElbow', 'rightElbow', 'leftWrist', 'rightWrist',
+  'leftHip', 'rightHip', 'leftKnee', 'rightKnee', 'leftAnkle', 'rightAnkle'
+];
+const MIN_VISIBILITY = 0.6;
+// Frame margin (normalized) a joint has to stay inside of.
+const EDGE_MARGIN = 0.03;
+// Nose-to-ankle height, as a share of the frame, that reads as too far away.
+const MIN_BODY_HEIGHT = 0.45;
+// How far the hips may drift from the centre of the frame.
+const MAX_CENTER_OFFSET = 0.15;
+
+// How long the framing has to stay good before the measurements are taken.
+export const CALIBRATION_HOLD_MS = 1500;
+
+export type FramingIssue = 'no-body' | 'too-close' | 'too-far' | 'step-left' | 'step-right' | 'joints-hidden';
+
+export interface FramingCheck {
+  ready: boolean;
+  issue: FramingIssue | null;
+  // Required joints the camera can't see well enough.
+  missing: LandmarkName[];
+}
+
+const isVisible = (lm: Landmark | undefined) =>
+  !!lm && (lm.visibility ?? 1) >= MIN_VISIBILITY && lm.x >= EDGE_MARGIN && lm.x <= 1 - EDGE_MARGIN && lm.y >= EDGE_MARGIN && lm.y <= 1 - EDGE_MARGIN;
+
+/**
+ * Checks that the whole body is in frame, at a usable distance and roughly
+ * centred, and says what the player should do if not. Directions are the
+ * player's own left and right.
+ */
+export function checkFraming(landmarks: Landmark[] | null | undefined): FramingCheck {
+  if (!landmarks || landmarks.length === 0) {
+    return { ready: false, issue: 'no-body', missing: [...REQUIRED_JOINTS] };
+  }
+  const get = (name: LandmarkName) => landmarks[LANDMARK_INDEX[name]];
+  const missing = REQUIRED_JOINTS.filter(name => !isVisible(get(name)));
+
+  const torsoVisible = ['leftShoulder', 'rightShoulder', 'leftHip', 'rightHip'].every(name => isVisible(get(name as LandmarkName)));
+  if (!torsoVisible) {
+    return { ready: false, issue: missing.length === REQUIRED_JOINTS.length ? 'no-body' : 'too-close', missing };
+  }
+
+  // Head or feet cut off by the frame edge means the player is too close.
+  const cutOff = (['nose', 'leftAnkle', 'rightAnkle'] as LandmarkName[]).some(name => missing.includes(name));
+  if (cutOff) return { ready: false, issue: 'too-close', missing };
+
+  const ankleY = Math.max(get('leftAnkle').y, get('rightAnkle').y);
+  if (ankleY - get('nose').y < MIN_BODY_HEIGHT) return { ready: false, issue: 'too-far', missing };
+
+  // The camera sees the player's own right on the left of the raw image.
+  const hipX = (get('leftHip').x + get('rightHip').x) / 2;
+  if (hipX < 0.5 - MAX_CENTER_OFFSET) return { ready: false, issue: 'step-left', missing };
+  if (hipX > 0.5 + MAX_CENTER_OFFSET) return { ready: false, issue: 'step-right', missing };
+
+  if (missing.length > 0) return { ready: false, issue: 'joints-hidden', missing };
+  return { ready: true, issue: null, missing };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Median shoulder width and torso length over the frames, or null without a visible torso.
+ */
+export function measureBody(frames: PoseFrame[], aspectRatio: number): BodyCalibration | null {
+  const shoulderWidths: number[] = [];
+  const torsoLengths: number[] = [];
+  for (const { landmarks } of frames) {
+    const get = (name: LandmarkName) => landmarks[LANDMARK_INDEX[name]];
+    const lShoulder = get('leftShoulder');
+    const rShoulder = get('rightShoulder');
+    const lHip = get('leftHip');
+    const rHip = get('rightHip');
+    if (!lShoulder || !rShoulder || !lHip || !rHip) continue;
+    shoulderWidths.push(Math.hypot((lShoulder.x - rShoulder.x) * aspectRatio, lShoulder.y - rShoulder.y));
+    const midX = (lShoulder.x + rShoulder.x - lHip.x - rHip.x) / 2;
+    const midY = (lShoulder.y + rShoulder.y - lHip.y - rHip.y) / 2;
+    torsoLengths.push(Math.hypot(midX * aspectRatio, midY));
+  }
+  if (torsoLengths.length === 0) return null;
+  const round4 = (value: number) => Math.round(value * 10000) / 10000;
+  return { shoulderWidth: round4(median(shoulderWidths)), torsoLength: round4(median(torsoLengths)) };
+}
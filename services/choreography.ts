@@ -0,0 +1,128 @@
+import { Pose, PoseFrame, MatchResult } from "../types";
+import { evaluatePoseWindow, firstMatchTime, WindowOptions } from "./poseWindow";
+import { AppError } from "./errors";
+
+export const ROUTINE_FORMAT = 'neural-pulse-routine';
+export const ROUTINE_VERSION = 1;
+
+// Arriving this early or late at a step scores 0 for timing.
+export const TIMING_TOLERANCE_MS = 1000;
+// Share of a step's hold the pose has to be held without a break.
+const HOLD_SHARE = 0.6;
+// Step score blend, like the rule/position blend in poseService.
+const SHAPE_WEIGHT = 0.7;
+const TIMING_WEIGHT = 0.3;
+
+export interface RoutineStep {
+  // Id of a built-in or custom pose.
+  pose: string;
+  // Time to move into the pose after the previous step ends.
+  transitionMs: number;
+  // How long the pose should be held once the transition is over.
+  holdMs: number;
+}
+
+export interface Routine {
+  format: typeof ROUTINE_FORMAT;
+  version: number;
+  name: string;
+  steps: RoutineStep[];
+}
+
+// Step times are milliseconds since the routine started.
+export interface ScheduledStep {
+  pose: Pose;
+  startMs: number;
+  targetMs: number;
+  endMs: number;
+}
+
+export interface ScheduledRoutine {
+  name: string;
+  steps: ScheduledStep[];
+  durationMs: number;
+}
+
+export interface StepResult {
+  pose: Pose;
+  result: MatchResult;
+  // When the pose was first matched relative to the target time, null if never.
+  arrivalOffsetMs: number | null;
+  timingScore: number;
+  score: number;
+}
+
+const isDuration = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Parses a routine file and lays its steps out on a timeline, resolving pose
+ * ids against `poses`. Throws with a readable message on anything invalid.
+ */
+export function parseRoutine(json: string, poses: Pose[]): ScheduledRoutine {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new AppError({ code: 'not-json', file: 'routine' }, "Routine is not valid JSON.");
+  }
+  if (data?.format !== ROUTINE_FORMAT) {
+    throw new AppError({ code: 'wrong-format', file: 'routine' }, "File is not a Neural Pulse routine.");
+  }
+  if (typeof data.version !== 'number' || data.version > ROUTINE_VERSION) {
+    throw new AppError({ code: 'unsupported-version', file: 'routine', version: String(data.version) }, `Unsupported routine version: ${data.version}.`);
+  }
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    throw new AppError({ code: 'empty-file', file: 'routine' }, "Routine has no steps.");
+  }
+
+  const steps: ScheduledStep[] = [];
+  let clock = 0;
+  (data.steps as RoutineStep[]).forEach((step, i) => {
+    const pose = poses.find(p => p.id === step?.pose);
+    if (!pose) {
+      throw new AppError({ code: 'unknown-pose', item: i + 1, pose: String(step?.pose) }, `Step ${i + 1}: unknown pose "${step?.pose}".`);
+    }
+    if (!isDuration(step.transitionMs) || !isDuration(step.holdMs) || step.holdMs === 0) {
+      throw new AppError({ code: 'invalid-step-timing', item: i + 1 }, `Step ${i + 1}: transitionMs and holdMs must be positive durations.`);
+    }
+    steps.push({ pose, startMs: clock, targetMs: clock + step.transitionMs, endMs: clock + step.transitionMs + step.holdMs });
+    clock += step.transitionMs + step.holdMs;
+  });
+
+  return { name: typeof data.name === 'string' && data.name ? data.name : 'Routine', steps, durationMs: clock };
+}
+
+/**
+ * Index of the step playing at `elapsedMs`, or steps.length once the routine is over.
+ */
+export function stepIndexAt(routine: ScheduledRoutine, elapsedMs: number): number {
+  const index = routine.steps.findIndex(step => elapsedMs < step.endMs);
+  return index === -1 ? routine.steps.length : index;
+}
+
+/**
+ * Scores a finished step from the frames of the whole routine. `startedAt` is
+ * the frame clock time the routine started at. The shape is judged over the
+ * hold, and timing by how close to the target the pose was first matched.
+ */
+export function scoreStep(frames: PoseFrame[], step: ScheduledStep, startedAt: number, options: WindowOptions = {}): StepResult {
+  const holdMs = step.endMs - step.targetMs;
+  const result = evaluatePoseWindow(frames, step.pose, startedAt + step.endMs, {
+    ...options,
+    windowMs: holdMs,
+    minHoldMs: holdMs * HOLD_SHARE
+  });
+
+  // Reaching the pose early only counts from the start of the step.
+  const arrival = firstMatchTime(frames, step.pose, startedAt + step.startMs, startedAt + step.endMs, options);
+  const arrivalOffsetMs = arrival === null ? null : Math.round(arrival - startedAt - step.targetMs);
+  const timingScore = arrivalOffsetMs === null ? 0 : Math.max(0, 1 - Math.abs(arrivalOffsetMs) / TIMING_TOLERANCE_MS);
+
+  return {
+    pose: step.pose,
+    result,
+    arrivalOffsetMs,
+    timingScore: Math.round(timingScore * 100) / 100,
+    score: Math.round(result.score * SHAPE_WEIGHT + timingScore * 100 * TIMING_WEIGHT)
+  };
+}
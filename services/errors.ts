@@ -0,0 +1,70 @@
+/**
+ * Errors the player can see. Services throw an AppError carrying a code and
+ * its parameters, so the UI shows the message in the player's language
+ * (errorText in i18n/index.tsx). The English message is for logs and the
+ * Node scripts.
+ */
+
+// Files the player loads, named in the messages about them.
+export type FileKind = 'recording' | 'pose-pack' | 'routine' | 'workout' | 'config';
+
+// `item` is the 1-based position of the step, block, pose or playlist entry at fault.
+export type ErrorDetail =
+  | { code: 'not-json'; file: FileKind }
+  | { code: 'wrong-format'; file: FileKind }
+  | { code: 'unsupported-version'; file: FileKind; version: string }
+  | { code: 'empty-file'; file: FileKind }
+  | { code: 'invalid-frame'; item: number }
+  | { code: 'invalid-event'; item: number }
+  | { code: 'invalid-pose'; item: number }
+  | { code: 'missing-limbs'; pose: string }
+  | { code: 'unknown-limb'; pose: string; limb: string }
+  | { code: 'invalid-limb-rule'; pose: string; limb: string }
+  | { code: 'unknown-joint'; pose: string; joint: string }
+  | { code: 'invalid-joint-rule'; pose: string; joint: string }
+  | { code: 'invalid-joints'; pose: string }
+  | { code: 'invalid-stand-on'; pose: string }
+  | { code: 'invalid-relation'; pose: string }
+  | { code: 'unknown-landmark'; pose: string; landmark: string }
+  | { code: 'incomplete-reference'; pose: string; landmark: string }
+  | { code: 'unknown-pose'; item: number; pose: string }
+  | { code: 'invalid-step-timing'; item: number }
+  | { code: 'unknown-exercise'; item: number; exercise: string }
+  | { code: 'invalid-sets'; item: number }
+  | { code: 'missing-target'; item: number; exercise: string; target: 'reps' | 'holdMs' }
+  | { code: 'invalid-rest'; item?: number }
+  | { code: 'unknown-difficulty'; value: string }
+  | { code: 'unknown-judge'; value: string }
+  | { code: 'empty-playlist' }
+  | { code: 'invalid-order' }
+  | { code: 'invalid-wall-time'; min: number; item?: number }
+  | { code: 'invalid-threshold'; item?: number }
+  | { code: 'invalid-lives'; max: number }
+  | { code: 'invalid-max-lives' }
+  | { code: 'invalid-walls' }
+  | { code: 'invalid-seed' }
+  | { code: 'damaged-link' }
+  | { code: 'invalid-seed-code' }
+  | { code: 'seed-code-range' }
+  | { code: 'camera-denied' }
+  | { code: 'camera-not-found' }
+  | { code: 'camera-busy' }
+  | { code: 'camera-unavailable' }
+  | { code: 'video-unloadable' }
+  | { code: 'unplayable-video'; name: string }
+  | { code: 'track-too-short' }
+  | { code: 'no-photos' }
+  | { code: 'no-canvas' }
+  | { code: 'image-encoding' };
+
+export type ErrorCode = ErrorDetail['code'];
+
+export class AppError extends Error {
+  readonly detail: ErrorDetail;
+
+  constructor(detail: ErrorDetail, message: string) {
+    super(message);
+    this.name = 'AppError';
+    this.detail = detail;
+  }
+}
@@ -0,0 +1,332 @@
+import { Landmark, LandmarkName, JointName, Skeleton, PoseFrame, BodyCalibration } from "../types";
+import { LANDMARK_INDEX, toBodySkeleton, skeletonJointAngle, stanceWidth } from "./poseService";
+import { AppError } from "./errors";
+
+/**
+ * Workout mode: exercises counted as reps or timed as holds from joint angles
+ * over the landmark stream, organized as sets.
+ */
+
+export const WORKOUT_FORMAT = 'neural-pulse-workout';
+export const WORKOUT_VERSION = 1;
+
+const DEFAULT_REST_MS = 15000;
+// Joints the model is less sure of than this don't count, so reps aren't made up from guesses.
+const MIN_VISIBILITY = 0.5;
+// Time the active position has to last for a rep to count, which filters out tracking jitter.
+const MIN_ACTIVE_MS = 100;
+// Frame gaps longer than this only count this much towards a hold.
+const MAX_HOLD_STEP_MS = 250;
+
+export type ExerciseId = 'squat' | 'lunge' | 'jumping-jack' | 'arm-raise' | 'wall-sit' | 't-hold';
+
+export type ExerciseKind = 'reps' | 'hold';
+
+/**
+ * Joint angles of one frame in degrees, null where a joint isn't visible.
+ * Knees and elbows are the inner angle (180 = straight); shoulders are the
+ * angle between the torso and the upper arm (0 = arm down, 180 = overhead).
+ */
+export interface JointAngles {
+  leftKnee: number | null;
+  rightKnee: number | null;
+  leftElbow: number | null;
+  rightElbow: number | null;
+  leftShoulder: number | null;
+  rightShoulder: number | null;
+  // Horizontal distance between the ankles in torso lengths.
+  ankleSpread: number | null;
+}
+
+interface ExerciseSpec {
+  kind: ExerciseKind;
+  icon: string;
+  // The bottom of a squat, the top of a jumping jack, or the held position.
+  active: (angles: JointAngles) => boolean;
+  // The starting position a rep returns to. Reps only.
+  rest?: (angles: JointAngles) => boolean;
+}
+
+const both = (a: number | null, b: number | null, test: (value: number) => boolean) =>
+  a !== null && b !== null && test(a) && test(b);
+
+const between = (min: number, max: number) => (value: number) => value >= min && value <= max;
+
+export const EXERCISES: Record<ExerciseId, ExerciseSpec> = {
+  'squat': {
+    kind: 'reps',
+    icon: '🏋️',
+    active: j => both(j.leftKnee, j.rightKnee, a => a < 110),
+    rest: j => both(j.leftKnee, j.rightKnee, a => a > 160)
+  },
+  // From the front a lunge shows as the front knee bending deep with the back one following.
+  'lunge': {
+    kind: 'reps',
+    icon: '🦵',
+    active: j => j.leftKnee !== null && j.rightKnee !== null
+      && Math.min(j.leftKnee, j.rightKnee) < 100 && Math.max(j.leftKnee, j.rightKnee) < 140,
+    rest: j => both(j.leftKnee, j.rightKnee, a => a > 160)
+  },
+  'jumping-jack': {
+    kind: 'reps',
+    icon: '⭐',
+    active: j => both(j.leftShoulder, j.rightShoulder, a => a > 130) && j.ankleSpread !== null && j.ankleSpread > 0.9,
+    rest: j => both(j.leftShoulder, j.rightShoulder, a => a < 50) && j.ankleSpread !== null && j.ankleSpread < 0.6
+  },
+  'arm-raise': {
+    kind: 'reps',
+    icon: '🙌',
+    active: j => both(j.leftShoulder, j.rightShoulder, a => a > 150) && both(j.leftElbow, j.rightElbow, a => a > 140),
+    rest: j => both(j.leftShoulder, j.rightShoulder, a => a < 40)
+  },
+  'wall-sit': {
+    kind: 'hold',
+    icon: '🪑',
+    active: j => both(j.leftKnee, j.rightKnee, between(70, 125))
+  },
+  't-hold': {
+    kind: 'hold',
+    icon: '✈️',
+    active: j => both(j.leftShoulder, j.rightShoulder, between(70, 110)) && both(j.leftElbow, j.rightElbow, a => a > 150)
+  }
+};
+
+/**
+ * Joint angles in the body frame, so they don't depend on where the player
+ * stands. Null when the torso isn't visible.
+ */
+export function measureJoints(landmarks: Landmark[], aspectRatio?: number, calibration?: BodyCalibration): JointAngles | null {
+  const skeleton = toBodySkeleton(landmarks, aspectRatio, calibration);
+  if (!skeleton) return null;
+  const visible: Partial<Skeleton> = {};
+  (Object.keys(skeleton) as LandmarkName[]).forEach(name => {
+    if ((landmarks[LANDMARK_INDEX[name]]?.visibility ?? 1) >= MIN_VISIBILITY) visible[name] = skeleton[name];
+  });
+  const angle = (joint: JointName) => skeletonJointAngle(visible, joint);
+
+  return {
+    leftKnee: angle('leftKnee'),
+    rightKnee: angle('rightKnee'),
+    leftElbow: angle('leftElbow'),
+    rightElbow: angle('rightElbow'),
+    leftShoulder: angle('leftShoulder'),
+    rightShoulder: angle('rightShoulder'),
+    ankleSpread: stanceWidth(visible)
+  };
+}
+
+export interface WorkoutBlock {
+  exercise: ExerciseId;
+  sets: number;
+  // Reps per set for rep exercises, or hold time per set for holds.
+  reps?: number;
+  holdMs?: number;
+  // Rest after each set of this block; falls back to the workout's restMs.
+  restMs?: number;
+}
+
+export interface Workout {
+  format: typeof WORKOUT_FORMAT;
+  version: number;
+  name: string;
+  restMs?: number;
+  blocks: WorkoutBlock[];
+}
+
+export interface WorkoutSet {
+  exercise: ExerciseId;
+  kind: ExerciseKind;
+  // Reps, or milliseconds for a hold.
+  target: number;
+  restMs: number;
+}
+
+export interface ScheduledWorkout {
+  name: string;
+  sets: WorkoutSet[];
+}
+
+const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0;
+const isDuration = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Parses a workout file into its list of sets. Throws with a readable message
+ * on anything invalid.
+ */
+export function parseWorkout(json: string): ScheduledWorkout {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new AppError({ code: 'not-json', file: 'workout' }, "Workout is not valid JSON.");
+  }
+  if (data?.format !== WORKOUT_FORMAT) {
+    throw new AppError({ code: 'wrong-format', file: 'workout' }, "File is not a Neural Pulse workout.");
+  }
+  if (typeof data.version !== 'number' || data.version > WORKOUT_VERSION) {
+    throw new AppError({ code: 'unsupported-version', file: 'workout', version: String(data.version) }, `Unsupported workout version: ${data.version}.`);
+  }
+  if (!Array.isArray(data.blocks) || data.blocks.length === 0) {
+    throw new AppError({ code: 'empty-file', file: 'workout' }, "Workout has no exercises.");
+  }
+  if (data.restMs !== undefined && !isDuration(data.restMs)) {
+    throw new AppError({ code: 'invalid-rest' }, "restMs must be a duration.");
+  }
+
+  const sets: WorkoutSet[] = [];
+  (data.blocks as WorkoutBlock[]).forEach((block, i) => {
+    // Own keys only, so names like "constructor" aren't taken for exercises
+    if (typeof block?.exercise !== 'string' || !Object.hasOwn(EXERCISES, block.exercise)) {
+      throw new AppError({ code: 'unknown-exercise', item: i + 1, exercise: String(block?.exercise) }, `Block ${i + 1}: unknown exercise "${block?.exercise}".`);
+    }
+    const spec = EXERCISES[block.exercise];
+    if (!isCount(block.sets)) {
+      throw new AppError({ code: 'invalid-sets', item: i + 1 }, `Block ${i + 1}: sets must be a positive whole number.`);
+    }
+    const target = spec.kind === 'reps' ? block.reps : block.holdMs;
+    if (spec.kind === 'reps' ? !isCount(target) : !isDuration(target) || target === 0) {
+      throw new AppError({ code: 'missing-target', item: i + 1, exercise: block.exercise, target: spec.kind === 'reps' ? 'reps' : 'holdMs' }, `Block ${i + 1}: ${block.exercise} needs ${spec.kind === 'reps' ? 'reps' : 'holdMs'}.`);
+    }
+    if (block.restMs !== undefined && !isDuration(block.restMs)) {
+      throw new AppError({ code: 'invalid-rest', item: i + 1 }, `Block ${i + 1}: restMs must be a duration.`);
+    }
+    for (let set = 0; set < block.sets; set++) {
+      sets.push({ exercise: block.exercise, kind: spec.kind, target: target!, restMs: block.restMs ?? data.restMs ?? DEFAULT_REST_MS });
+    }
+  });
+
+  return { name: typeof data.name === 'string' && data.name ? data.name : 'Workout', sets };
+}
+
+export interface SetResult {
+  exercise: ExerciseId;
+  kind: ExerciseKind;
+  target: number;
+  reps: number;
+  holdMs: number;
+  durationMs: number;
+  // False when the set was skipped before reaching its target.
+  completed: boolean;
+}
+
+export interface WorkoutProgress {
+  setIndex: number;
+  phase: 'work' | 'rest' | 'done';
+  // performance.now() when the current set or rest began.
+  phaseStartedAt: number;
+  reps: number;
+  holdMs: number;
+  // Where the player is within a rep; null until they've been seen in the starting position.
+  position: 'rest' | 'active' | null;
+  activeSince: number;
+  lastFrameT: number | null;
+  results: SetResult[];
+}
+
+export function startWorkout(now: number): WorkoutProgress {
+  return { setIndex: 0, phase: 'work', phaseStartedAt: now, reps: 0, holdMs: 0, position: null, activeSince: 0, lastFrameT: null, results: [] };
+}
+
+function beginSet(progress: WorkoutProgress, setIndex: number, now: number): WorkoutProgress {
+  return { ...progress, setIndex, phase: 'work', phaseStartedAt: now, reps: 0, holdMs: 0, position: null, lastFrameT: null };
+}
+
+// Records the current set and moves on to its rest, or ends the workout.
+function endSet(workout: ScheduledWorkout, progress: WorkoutProgress, now: number, completed: boolean): WorkoutProgress {
+  const set = workout.sets[progress.setIndex];
+  const result: SetResult = {
+    exercise: set.exercise,
+    kind: set.kind,
+    target: set.target,
+    reps: progress.reps,
+    holdMs: Math.round(progress.holdMs),
+    durationMs: Math.round(now - progress.phaseStartedAt),
+    completed
+  };
+  const ended = { ...progress, results: [...progress.results, result] };
+  if (progress.setIndex + 1 >= workout.sets.length) return { ...ended, phase: 'done', phaseStartedAt: now };
+  if (set.restMs === 0) return beginSet(ended, progress.setIndex + 1, now);
+  return { ...ended, phase: 'rest', phaseStartedAt: now };
+}
+
+/**
+ * Feeds one landmark frame into the current set: a rep counts each time the
+ * player goes from the starting position to the active one and back, and a
+ * hold adds up the time spent in position.
+ */
+export function advanceWorkout(
+  workout: ScheduledWorkout,
+  progress: WorkoutProgress,
+  frame: PoseFrame,
+  options: { aspectRatio?: number; calibration?: BodyCalibration } = {}
+): WorkoutProgress {
+  if (progress.phase !== 'work' || frame.t < progress.phaseStartedAt) return progress;
+  const angles = measureJoints(frame.landmarks, options.aspectRatio, options.calibration);
+  if (!angles) return progress;
+  const set = workout.sets[progress.setIndex];
+  const spec = EXERCISES[set.exercise];
+
+  if (spec.kind === 'hold') {
+    const step = progress.lastFrameT === null ? 0 : Math.min(MAX_HOLD_STEP_MS, frame.t - progress.lastFrameT);
+    const holdMs = spec.active(angles) ? progress.holdMs + step : progress.holdMs;
+    const next = { ...progress, holdMs, lastFrameT: frame.t };
+    return holdMs >= set.target ? endSet(workout, next, frame.t, true) : next;
+  }
+
+  if (progress.position !== 'active') {
+    if (spec.rest!(angles)) return { ...progress, position: 'rest' };
+    if (progress.position === 'rest' && spec.active(angles)) return { ...progress, position: 'active', activeSince: frame.t };
+    return progress;
+  }
+  if (!spec.rest!(angles)) return progress;
+  // Back at the start: a rep if the active position lasted, jitter otherwise
+  if (frame.t - progress.activeSince < MIN_ACTIVE_MS) return { ...progress, position: 'rest' };
+  const next = { ...progress, position: 'rest' as const, reps: progress.reps + 1 };
+  return next.reps >= set.target ? endSet(workout, next, frame.t, true) : next;
+}
+
+/**
+ * Ends the rest between sets once its time is up.
+ */
+export function tickWorkout(workout: ScheduledWorkout, progress: WorkoutProgress, now: number): WorkoutProgress {
+  if (progress.phase !== 'rest') return progress;
+  const rest = workout.sets[progress.setIndex].restMs;
+  return now - progress.phaseStartedAt >= rest ? beginSet(progress, progress.setIndex + 1, now) : progress;
+}
+
+/**
+ * Skips the rest, or ends the current set where it stands.
+ */
+export function skipWorkoutPhase(workout: ScheduledWorkout, progress: WorkoutProgress, now: number): WorkoutProgress {
+  if (progress.phase === 'rest') return beginSet(progress, progress.setIndex + 1, now);
+  if (progress.phase === 'work') return endSet(workout, progress, now, false);
+  return progress;
+}
+
+export interface WorkoutTotals {
+  // Reps done and seconds held, per exercise, in the order first done.
+  exercises: { exercise: ExerciseId; kind: ExerciseKind; reps: number; holdMs: number; sets: number }[];
+  setsCompleted: number;
+  setsTotal: number;
+  activeMs: number;
+}
+
+export function workoutTotals(workout: ScheduledWorkout, results: SetResult[]): WorkoutTotals {
+  const exercises: WorkoutTotals['exercises'] = [];
+  for (const result of results) {
+    let entry = exercises.find(e => e.exercise === result.exercise);
+    if (!entry) {
+      entry = { exercise: result.exercise, kind: result.kind, reps: 0, holdMs: 0, sets: 0 };
+      exercises.push(entry);
+    }
+    entry.reps += result.reps;
+    entry.holdMs += result.holdMs;
+    entry.sets += 1;
+  }
+  return {
+    exercises,
+    setsCompleted: results.filter(result => result.completed).length,
+    setsTotal: workout.sets.length,
+    activeMs: results.reduce((sum, result) => sum + result.durationMs, 0)
+  };
+}
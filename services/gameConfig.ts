@@ -0,0 +1,174 @@
+import { JudgeMode, Pose } from "../types";
+import { DifficultyId, DIFFICULTIES } from "./progression";
+import { PlaylistWall, RunRules } from "./gameEngine";
+import { AppError } from "./errors";
+
+/**
+ * A session set up ahead of time, e.g. by a teacher for a class: which poses
+ * come up and in what order, how long each wall lasts, lives, thresholds and
+ * the judge. Shared as a JSON file or as a link with the config in its hash.
+ */
+
+export const GAME_CONFIG_FORMAT = 'neural-pulse-config';
+export const GAME_CONFIG_VERSION = 1;
+
+// Hash parameter a config link carries the encoded config in.
+const URL_PARAM = 'config';
+const JUDGES: JudgeMode[] = ['offline', 'hybrid', 'gemini'];
+const MIN_WALL_MS = 1000;
+const MAX_LIVES = 20;
+
+export interface PlaylistEntry {
+  pose: string;
+  wallMs?: number;
+  threshold?: number;
+}
+
+export interface GameConfig {
+  format: typeof GAME_CONFIG_FORMAT;
+  version: number;
+  name?: string;
+  // Preset for everything the config doesn't set, including level progression.
+  difficulty?: DifficultyId;
+  // Pose ids, or entries with their own wall time and threshold.
+  poses?: (string | PlaylistEntry)[];
+  order?: 'sequence' | 'shuffle';
+  walls?: number;
+  lives?: number;
+  maxLives?: number;
+  wallMs?: number;
+  threshold?: number;
+  judge?: JudgeMode;
+  // Fixes the shuffle, so every player gets the same walls.
+  seed?: number;
+}
+
+export interface SessionConfig {
+  name: string | null;
+  difficulty: DifficultyId | null;
+  judge: JudgeMode | null;
+  seed: number | null;
+  rules: RunRules;
+  // The config as loaded, to share it on.
+  source: GameConfig;
+}
+
+const isWhole = (value: unknown, min: number, max = Infinity) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+const isWallMs = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= MIN_WALL_MS;
+const isThreshold = (value: unknown) => typeof value === 'number' && value >= 1 && value <= 100;
+
+/**
+ * Parses and validates a game config, resolving its pose ids against `poses`.
+ * Throws with a readable message on anything invalid.
+ */
+export function parseGameConfig(json: string, poses: Pose[]): SessionConfig {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new AppError({ code: 'not-json', file: 'config' }, "Game config is not valid JSON.");
+  }
+  if (data?.format !== GAME_CONFIG_FORMAT) {
+    throw new AppError({ code: 'wrong-format', file: 'config' }, "File is not a Neural Pulse game config.");
+  }
+  if (typeof data.version !== 'number' || data.version > GAME_CONFIG_VERSION) {
+    throw new AppError({ code: 'unsupported-version', file: 'config', version: String(data.version) }, `Unsupported game config version: ${data.version}.`);
+  }
+  if (data.difficulty !== undefined && (typeof data.difficulty !== 'string' || !Object.hasOwn(DIFFICULTIES, data.difficulty))) {
+    throw new AppError({ code: 'unknown-difficulty', value: String(data.difficulty) }, `Unknown difficulty "${data.difficulty}".`);
+  }
+  if (data.judge !== undefined && !JUDGES.includes(data.judge)) {
+    throw new AppError({ code: 'unknown-judge', value: String(data.judge) }, `Unknown judge "${data.judge}".`);
+  }
+  if (data.order !== undefined && data.order !== 'sequence' && data.order !== 'shuffle') {
+    throw new AppError({ code: 'invalid-order' }, "order must be \"sequence\" or \"shuffle\".");
+  }
+  if (data.wallMs !== undefined && !isWallMs(data.wallMs)) {
+    throw new AppError({ code: 'invalid-wall-time', min: MIN_WALL_MS }, `wallMs must be at least ${MIN_WALL_MS}.`);
+  }
+  if (data.threshold !== undefined && !isThreshold(data.threshold)) {
+    throw new AppError({ code: 'invalid-threshold' }, "threshold must be between 1 and 100.");
+  }
+  if (data.lives !== undefined && !isWhole(data.lives, 1, MAX_LIVES)) {
+    throw new AppError({ code: 'invalid-lives', max: MAX_LIVES }, `lives must be a whole number from 1 to ${MAX_LIVES}.`);
+  }
+  if (data.maxLives !== undefined && !isWhole(data.maxLives, data.lives ?? 1, MAX_LIVES)) {
+    throw new AppError({ code: 'invalid-max-lives' }, "maxLives must be a whole number no lower than lives.");
+  }
+  if (data.walls !== undefined && !isWhole(data.walls, 1)) {
+    throw new AppError({ code: 'invalid-walls' }, "walls must be a positive whole number.");
+  }
+  if (data.seed !== undefined && !isWhole(data.seed, 0, 0xffffffff)) {
+    throw new AppError({ code: 'invalid-seed' }, "seed must be a whole number from 0 to 4294967295.");
+  }
+  if (data.poses !== undefined && (!Array.isArray(data.poses) || data.poses.length === 0)) {
+    throw new AppError({ code: 'empty-playlist' }, "poses must be a non-empty list.");
+  }
+
+  const playlist: PlaylistWall[] | undefined = (data.poses as GameConfig['poses'])?.map((item, i) => {
+    const entry: PlaylistEntry = typeof item === 'string' ? { pose: item } : item;
+    const pose = poses.find(candidate => candidate.id === entry?.pose);
+    if (!pose) {
+      throw new AppError({ code: 'unknown-pose', item: i + 1, pose: String(entry?.pose) }, `Pose ${i + 1}: unknown pose "${entry?.pose}".`);
+    }
+    if (entry.wallMs !== undefined && !isWallMs(entry.wallMs)) {
+      throw new AppError({ code: 'invalid-wall-time', min: MIN_WALL_MS, item: i + 1 }, `Pose ${i + 1}: wallMs must be at least ${MIN_WALL_MS}.`);
+    }
+    if (entry.threshold !== undefined && !isThreshold(entry.threshold)) {
+      throw new AppError({ code: 'invalid-threshold', item: i + 1 }, `Pose ${i + 1}: threshold must be between 1 and 100.`);
+    }
+    return { pose, wallMs: entry.wallMs, threshold: entry.threshold };
+  });
+
+  return {
+    name: typeof data.name === 'string' && data.name ? data.name : null,
+    difficulty: data.difficulty ?? null,
+    judge: data.judge ?? null,
+    seed: data.seed ?? null,
+    rules: {
+      playlist,
+      shuffle: data.order === 'shuffle',
+      wallMs: data.wallMs,
+      threshold: data.threshold,
+      lives: data.lives,
+      maxLives: data.maxLives,
+      walls: data.walls
+    },
+    source: data
+  };
+}
+
+// Base64url of the UTF-8 bytes, so pose names in any language survive the URL.
+function encodeBase64Url(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => binary += String.fromCharCode(byte));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Link that opens the game with `config` loaded.
+ */
+export function configUrl(config: GameConfig, base: string = window.location.href): string {
+  const url = new URL(base);
+  url.hash = `${URL_PARAM}=${encodeBase64Url(JSON.stringify(config))}`;
+  return url.toString();
+}
+
+/**
+ * The config JSON a link carries, or null when it carries none.
+ */
+export function configFromUrl(href: string = window.location.href): string | null {
+  const encoded = new URLSearchParams(new URL(href).hash.slice(1)).get(URL_PARAM);
+  if (!encoded) return null;
+  try {
+    return decodeBase64Url(encoded);
+  } catch (e) {
+    throw new AppError({ code: 'damaged-link' }, "The game config in this link is damaged.");
+  }
+}
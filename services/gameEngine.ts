@@ -0,0 +1,197 @@
+import { GameState, Pose, MatchResult } from "../types";
+import { DifficultyId, DIFFICULTIES, WallOutcome, levelForWalls, levelSettings, posePool, thresholdFor, scoreWall } from "./progression";
+import { AppError } from "./errors";
+
+/**
+ * The rules of a run as plain state transitions. Everything random comes from
+ * the run's seed, so the same seed, difficulty and pose list always deal the
+ * same walls.
+ */
+
+export type RunPhase = GameState.PLAYING | GameState.JUDGING | GameState.RESULT | GameState.GAMEOVER;
+
+export interface Wall {
+  // The pose as dealt, before handedness is applied for judging.
+  pose: Pose;
+  threshold: number;
+  wallMs: number;
+  level: number;
+}
+
+export interface PlaylistWall {
+  pose: Pose;
+  wallMs?: number;
+  threshold?: number;
+}
+
+/**
+ * A game config's changes to the difficulty preset (see gameConfig.ts).
+ * Anything left unset follows the preset and the level.
+ */
+export interface RunRules {
+  // Poses dealt instead of the tiered pool, in order unless `shuffle` is set.
+  playlist?: PlaylistWall[];
+  shuffle?: boolean;
+  // Fixed wall time and match threshold for walls that don't set their own.
+  wallMs?: number;
+  threshold?: number;
+  lives?: number;
+  maxLives?: number;
+  // The run ends after this many walls, lives or not.
+  walls?: number;
+}
+
+export interface RunState {
+  seed: number;
+  difficulty: DifficultyId;
+  rules: RunRules;
+  // PRNG state after the last draw.
+  rng: number;
+  phase: RunPhase;
+  round: number;
+  score: number;
+  lives: number;
+  streak: number;
+  wallsCleared: number;
+  wall: Wall | null;
+  lastOutcome: WallOutcome | null;
+}
+
+// mulberry32: small, fast and identical on every JS engine.
+function nextRandom(rng: number): { value: number; rng: number } {
+  const next = (rng + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, rng: next };
+}
+
+export function randomSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+export function startRun(seed: number, difficulty: DifficultyId, rules: RunRules = {}): RunState {
+  return {
+    seed: seed >>> 0,
+    difficulty,
+    rules,
+    rng: seed >>> 0,
+    phase: GameState.PLAYING,
+    round: 0,
+    score: 0,
+    lives: rules.lives ?? DIFFICULTIES[difficulty].startingLives,
+    streak: 0,
+    wallsCleared: 0,
+    wall: null,
+    lastOutcome: null
+  };
+}
+
+export function runLevel(state: RunState): number {
+  return levelForWalls(DIFFICULTIES[state.difficulty], state.wallsCleared);
+}
+
+// Lives can't be won back past this.
+export function runMaxLives(state: RunState): number {
+  return state.rules.maxLives ?? Math.max(DIFFICULTIES[state.difficulty].maxLives, state.rules.lives ?? 0);
+}
+
+/**
+ * Deals the next wall from the rules' playlist, or else from `poses`. The
+ * list's order matters, so callers wanting reproducible runs must pass the
+ * same poses in the same order.
+ */
+export function dealWall(state: RunState, poses: Pose[]): RunState {
+  const level = runLevel(state);
+  const settings = levelSettings(DIFFICULTIES[state.difficulty], level);
+  const { playlist, shuffle } = state.rules;
+  let rng = state.rng;
+  let entry: PlaylistWall;
+  if (playlist?.length && !shuffle) {
+    entry = playlist[state.round % playlist.length];
+  } else {
+    const pool = playlist?.length ? playlist : posePool(poses, settings).map(pose => ({ pose }));
+    const draw = nextRandom(state.rng);
+    rng = draw.rng;
+    entry = pool[Math.floor(draw.value * pool.length)];
+  }
+  return {
+    ...state,
+    rng,
+    phase: GameState.PLAYING,
+    round: state.round + 1,
+    wall: {
+      pose: entry.pose,
+      threshold: entry.threshold ?? state.rules.threshold ?? thresholdFor(entry.pose, settings),
+      wallMs: entry.wallMs ?? state.rules.wallMs ?? settings.wallMs,
+      level
+    },
+    lastOutcome: null
+  };
+}
+
+export function beginJudging(state: RunState): RunState {
+  return { ...state, phase: GameState.JUDGING };
+}
+
+/**
+ * Applies combo points, lives and level progress for a judged wall, and ends
+ * the run when the last life is gone or the rules' wall count is reached.
+ */
+export function judgeWall(state: RunState, result: MatchResult, onBeat = false): RunState {
+  const preset = DIFFICULTIES[state.difficulty];
+  const outcome = scoreWall(preset, state.streak, result, onBeat);
+  let lives = result.matched ? state.lives : state.lives - 1;
+  if (outcome.bonusLife) lives = Math.min(runMaxLives(state), lives + 1);
+  const finished = state.rules.walls !== undefined && state.round >= state.rules.walls;
+  return {
+    ...state,
+    phase: lives <= 0 || finished ? GameState.GAMEOVER : GameState.RESULT,
+    score: state.score + outcome.points,
+    lives,
+    streak: outcome.streak,
+    wallsCleared: state.wallsCleared + (result.matched ? 1 : 0),
+    lastOutcome: outcome
+  };
+}
+
+// Seed codes look like "N-1Z141Z3": difficulty letter, then the seed in base 36.
+const DIFFICULTY_LETTERS: Record<DifficultyId, string> = { easy: 'E', normal: 'N', hard: 'H' };
+
+export function seedCode(seed: number, difficulty: DifficultyId): string {
+  return `${DIFFICULTY_LETTERS[difficulty]}-${(seed >>> 0).toString(36).toUpperCase()}`;
+}
+
+export function parseSeedCode(code: string): { seed: number; difficulty: DifficultyId } {
+  const match = /^([ENH])-([0-9A-Z]{1,7})$/.exec(code.trim().toUpperCase());
+  if (!match) {
+    throw new AppError({ code: 'invalid-seed-code' }, "Seed code should look like N-1Z141Z3.");
+  }
+  const difficulty = (Object.keys(DIFFICULTY_LETTERS) as DifficultyId[]).find(id => DIFFICULTY_LETTERS[id] === match[1])!;
+  const seed = parseInt(match[2], 36);
+  if (seed > 0xffffffff) {
+    throw new AppError({ code: 'seed-code-range' }, "Seed code is out of range.");
+  }
+  return { seed, difficulty };
+}
+
+// Everyone plays the daily challenge on this difficulty.
+export const DAILY_DIFFICULTY: DifficultyId = 'normal';
+
+// Local calendar date, so the challenge turns over at the player's midnight.
+export function dailyKey(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * FNV-1a hash of the date, so every player gets the same seed on the same day.
+ */
+export function dailySeed(key: string = dailyKey()): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
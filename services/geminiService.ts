@@ -1,56 +1,81 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { Pose, MatchResult } from "../types";
+import { Pose, MatchResult, ViewSettings } from "../types";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+let ai: GoogleGenAI | null = null;
 
-export async function evaluatePose(base64Image: string, targetPose: Pose): Promise<MatchResult> {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: base64Image
-            }
-          },
-          {
-            text: `You are a judge for the game "Hole in the Wall". 
-            The target pose is: "${targetPose.name}". 
-            Description: "${targetPose.description}". 
-            Look at the person in the image and determine if they are accurately mimicking this pose.
-            Be slightly lenient but ensure the core shape is there.
-            Return a JSON object with:
-            - matched: boolean
-            - score: number (0 to 100)
-            - feedback: string (short encouraging message)`
+// Created on first use so the offline game never needs an API key.
+// GEMINI_BASE_URL points the client at a local stand-in (see scripts/mock-gemini.ts).
+function getClient(): GoogleGenAI {
+  if (!ai) {
+    const baseUrl = process.env.GEMINI_BASE_URL;
+    ai = new GoogleGenAI({
+      apiKey: process.env.API_KEY,
+      httpOptions: baseUrl ? { baseUrl } : undefined
+    });
+  }
+  return ai;
+}
+
+export function isGeminiConfigured(): boolean {
+  return Boolean(process.env.API_KEY);
+}
+
+/**
+ * Asks Gemini to judge a JPEG frame. Throws when the request fails or is
+ * aborted, so callers can fall back to the offline evaluator.
+ */
+export async function evaluatePose(base64Image: string, targetPose: Pose, signal?: AbortSignal, view?: ViewSettings, language = 'English'): Promise<MatchResult> {
+  const orientation = view && !view.mirrorDisplay
+    ? 'The image is not mirrored: it shows the person as someone facing them would.'
+    : 'The image is mirrored, like a selfie: the person\'s left side is on the left of the image.';
+  const sides = view?.sides === 'screen'
+    ? 'Left and right in the description mean the left and right of the image.'
+    : 'Left and right in the description mean the person\'s own left and right.';
+
+  const response = await getClient().models.generateContent({
+    model: 'gemini-3-flash-preview',
+    contents: {
+      parts: [
+        {
+          inlineData: {
+            mimeType: 'image/jpeg',
+            data: base64Image
           }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            matched: { type: Type.BOOLEAN },
-            score: { type: Type.NUMBER },
-            feedback: { type: Type.STRING }
-          },
-          required: ["matched", "score", "feedback"]
+        },
+        {
+          text: `You are a judge for the game "Hole in the Wall". 
+          The target pose is: "${targetPose.name}". 
+          Description: "${targetPose.description}". 
+          ${orientation} ${sides}
+          Look at the person in the image and determine if they are accurately mimicking this pose.
+          Be slightly lenient but ensure the core shape is there.
+          Return a JSON object with:
+          - matched: boolean
+          - score: number (0 to 100)
+          - feedback: string (short encouraging message in ${language})`
         }
-      }
-    });
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          matched: { type: Type.BOOLEAN },
+          score: { type: Type.NUMBER },
+          feedback: { type: Type.STRING }
+        },
+        required: ["matched", "score", "feedback"]
+      },
+      abortSignal: signal
+    }
+  });
 
-    const result = JSON.parse(response.text || '{}');
-    return {
-      matched: result.matched ?? false,
-      score: result.score ?? 0,
-      feedback: result.feedback ?? "Keep trying!"
-    };
-  } catch (error) {
-    console.error("Gemini Evaluation Error:", error);
-    return { matched: false, score: 0, feedback: "Error evaluating pose." };
-  }
+  const result = JSON.parse(response.text || '{}');
+  return {
+    matched: result.matched ?? false,
+    score: result.score ?? 0,
+    feedback: result.feedback ?? "Keep trying!"
+  };
 }
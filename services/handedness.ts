@@ -0,0 +1,136 @@
+import { Pose, PoseDefinition, RelativePositionRule, ViewSettings } from "../types";
+import { mirrorDefinition } from "./poseService";
+
+const STORAGE_KEY = 'neural-pulse.view-settings';
+// Suffix for generated twins, so they never clash with real pose ids.
+export const TWIN_SUFFIX = '~mirror';
+
+export const DEFAULT_VIEW_SETTINGS: ViewSettings = {
+  mirrorDisplay: true,
+  sides: 'anatomical',
+  mirroredTwins: false
+};
+
+export function loadViewSettings(): ViewSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_VIEW_SETTINGS, ...JSON.parse(stored) } : DEFAULT_VIEW_SETTINGS;
+  } catch (e) {
+    console.error("View Settings Load Error:", e);
+    return DEFAULT_VIEW_SETTINGS;
+  }
+}
+
+export function saveViewSettings(settings: ViewSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Poses are written with anatomical sides. Only an unmirrored display read
+ * by screen side puts the player's own left on the right of the screen.
+ */
+export function swapsSides(settings: ViewSettings): boolean {
+  return settings.sides === 'screen' && !settings.mirrorDisplay;
+}
+
+/**
+ * The pose as it has to be judged under these settings. Names and
+ * descriptions keep their wording, since they are read from the screen.
+ */
+export function applyHandedness(pose: Pose, settings: ViewSettings): Pose {
+  if (!swapsSides(settings) || !isAsymmetric(pose.definition)) return pose;
+  return { ...pose, definition: mirrorDefinition(pose.definition) };
+}
+
+// Relations written from either end describe the same constraint.
+function canonicalRelation(rule: RelativePositionRule) {
+  const { weight = 1, ...rest } = rule;
+  if (rule.landmark <= rule.relativeTo) return { ...rest, weight };
+  const flipped = rule.axis === 'distance'
+    ? { min: rule.min, max: rule.max }
+    : { min: rule.max !== undefined ? -rule.max : undefined, max: rule.min !== undefined ? -rule.min : undefined };
+  return { landmark: rule.relativeTo, relativeTo: rule.landmark, axis: rule.axis, ...flipped, weight };
+}
+
+function canonicalDefinition(definition: PoseDefinition): string {
+  const limbs = definition.limbs
+    .map(({ weight = 1, ...rule }) => ({ ...rule, weight }))
+    .sort((a, b) => a.limb.localeCompare(b.limb));
+  const relations = (definition.relations ?? [])
+    .map(canonicalRelation)
+    .map(rule => JSON.stringify(rule))
+    .sort();
+  const joints = (definition.joints ?? [])
+    .map(({ weight = 1, ...rule }) => ({ ...rule, weight }))
+    .sort((a, b) => a.joint.localeCompare(b.joint));
+  return JSON.stringify({ limbs, relations, joints, standOn: definition.standOn });
+}
+
+/**
+ * True when the pose asks different things of the left and right side.
+ * Poses that accept either side already are not asymmetric.
+ */
+export function isAsymmetric(definition: PoseDefinition): boolean {
+  if (definition.eitherSide) return false;
+  return canonicalDefinition(definition) !== canonicalDefinition(mirrorDefinition(definition));
+}
+
+// `word` written the way `stem` is: all caps, capitalized or lower case.
+function inCaseOf(stem: string, word: string): string {
+  if (stem.length > 1 && stem === stem.toUpperCase()) return word.toUpperCase();
+  if (stem[0] === stem[0].toUpperCase()) return word[0].toUpperCase() + word.slice(1);
+  return word;
+}
+
+const SIDE_WORDS: [RegExp, (match: string) => string][] = [
+  [/(^|[^а-яё])([Лл])ев(?=(ая|ую|ой|ый|ое|ые|ых|ым|ыми|ом|ого|ому)?(?![а-яё]))/gi, m => m.replace(/лев/i, stem => inCaseOf(stem, 'прав'))],
+  [/(^|[^а-яё])([Пп])рав(?=(ая|ую|ой|ый|ое|ые|ых|ым|ыми|ом|ого|ому)?(?![а-яё]))/gi, m => m.replace(/прав/i, stem => inCaseOf(stem, 'лев'))],
+  [/([Вв])лево(?![а-яё])/gi, m => m.slice(0, 1) + inCaseOf(m.slice(1), 'право')],
+  [/([Вв])право(?![а-яё])/gi, m => m.slice(0, 1) + inCaseOf(m.slice(1), 'лево')],
+  [/\bleft\b/g, () => 'right'],
+  [/\bright\b/g, () => 'left'],
+  [/\bLeft\b/g, () => 'Right'],
+  [/\bRight\b/g, () => 'Left']
+];
+
+// Swaps left and right words in Russian and English text in one pass.
+export function swapSideWords(text: string): string {
+  const placeholders: string[] = [];
+  let result = text;
+  for (const [pattern, replace] of SIDE_WORDS) {
+    result = result.replace(pattern, match => {
+      placeholders.push(replace(match));
+      return `\u0000${placeholders.length - 1}\u0000`;
+    });
+  }
+  return result.replace(/\u0000(\d+)\u0000/g, (_, i) => placeholders[Number(i)]);
+}
+
+export function mirroredTwin(pose: Pose): Pose {
+  return {
+    ...pose,
+    id: `${pose.id}${TWIN_SUFFIX}`,
+    name: swapSideWords(pose.name),
+    description: swapSideWords(pose.description),
+    feedback: { match: swapSideWords(pose.feedback.match), miss: swapSideWords(pose.feedback.miss) },
+    definition: mirrorDefinition(pose.definition)
+  };
+}
+
+/**
+ * Adds a mirrored twin for every asymmetric pose that doesn't already have one
+ * in the list, like 'left-arm-up' for 'right-arm-up'.
+ */
+export function withMirroredTwins(poses: Pose[]): Pose[] {
+  const known = new Set(poses.map(pose => canonicalDefinition(pose.definition)));
+  const twins: Pose[] = [];
+  for (const pose of poses) {
+    if (pose.id.endsWith(TWIN_SUFFIX) || !isAsymmetric(pose.definition)) continue;
+    const twin = mirroredTwin(pose);
+    const key = canonicalDefinition(twin.definition);
+    if (known.has(key)) continue;
+    known.add(key);
+    twins.push(twin);
+  }
+  return [...poses, ...twins];
+}
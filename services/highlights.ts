@@ -0,0 +1,220 @@
+/**
+ * Keeps a session's highlights in memory instead of downloading them one by
+ * one: a photo of every matched wall with the skeleton and pose name on it, a
+ * short clip of every wall, and one reel of all the walls back to back.
+ */
+import { AppError } from "./errors";
+
+export interface Snapshot {
+  id: string;
+  poseName: string;
+  score: number;
+  blob: Blob;
+  // Object URL of `blob`, for <img>; revoked by clearGallery.
+  url: string;
+}
+
+export interface WallClip {
+  id: string;
+  poseName: string;
+  matched: boolean;
+  score: number;
+  blob: Blob;
+  url: string;
+}
+
+export interface HighlightGallery {
+  snapshots: Snapshot[];
+  clips: WallClip[];
+  reel: Blob | null;
+}
+
+export const EMPTY_GALLERY: HighlightGallery = { snapshots: [], clips: [], reel: null };
+
+// Older clips are dropped past this, so a long run doesn't fill memory; the reel keeps everything.
+const MAX_CLIPS = 20;
+const CLIP_FPS = 30;
+const VIDEO_BITRATE = 1_500_000;
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+export function clearGallery(gallery: HighlightGallery): void {
+  gallery.snapshots.forEach(snapshot => URL.revokeObjectURL(snapshot.url));
+  gallery.clips.forEach(clip => URL.revokeObjectURL(clip.url));
+}
+
+export function addSnapshot(gallery: HighlightGallery, snapshot: Omit<Snapshot, 'id' | 'url'>): HighlightGallery {
+  const entry = { ...snapshot, id: crypto.randomUUID(), url: URL.createObjectURL(snapshot.blob) };
+  return { ...gallery, snapshots: [...gallery.snapshots, entry] };
+}
+
+export function addClip(gallery: HighlightGallery, clip: Omit<WallClip, 'id' | 'url'>): HighlightGallery {
+  const entry = { ...clip, id: crypto.randomUUID(), url: URL.createObjectURL(clip.blob) };
+  const clips = [...gallery.clips, entry];
+  clips.splice(0, Math.max(0, clips.length - MAX_CLIPS)).forEach(old => URL.revokeObjectURL(old.url));
+  return { ...gallery, clips };
+}
+
+function canvasBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new AppError({ code: 'image-encoding' }, "Could not encode the image.")), type, quality);
+  });
+}
+
+// Pose name and score on a dark band along the bottom of the picture.
+function drawCaption(ctx: CanvasRenderingContext2D, width: number, height: number, poseName: string, score: number): void {
+  const band = Math.round(height * 0.14);
+  const gradient = ctx.createLinearGradient(0, height - band * 1.5, 0, height);
+  gradient.addColorStop(0, 'rgba(2, 6, 23, 0)');
+  gradient.addColorStop(1, 'rgba(2, 6, 23, 0.9)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, height - band * 1.5, width, band * 1.5);
+  ctx.font = `900 ${Math.round(band * 0.45)}px sans-serif`;
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'left';
+  ctx.fillText(poseName.toUpperCase(), band * 0.3, height - band / 2);
+  ctx.fillStyle = '#22d3ee';
+  ctx.textAlign = 'right';
+  ctx.fillText(`${score}%`, width - band * 0.3, height - band / 2);
+}
+
+/**
+ * Copy of the game view as drawn right now (camera, silhouette and skeleton),
+ * taken when the wall is judged and captioned once the verdict is in.
+ */
+export function freezeFrame(view: HTMLCanvasElement): HTMLCanvasElement | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = view.width;
+  canvas.height = view.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(view, 0, 0);
+  return canvas;
+}
+
+// JPEG of a frozen frame with the pose name and score captioned on it.
+export function captureSnapshot(frame: HTMLCanvasElement, poseName: string, score: number): Promise<Blob> {
+  const ctx = frame.getContext('2d');
+  if (!ctx) return Promise.reject(new AppError({ code: 'no-canvas' }, "Canvas 2D is not available."));
+  drawCaption(ctx, frame.width, frame.height, poseName, score);
+  return canvasBlob(frame, 'image/jpeg', 0.9);
+}
+
+/**
+ * All the session's photos on one JPEG, four to a row, under a title line.
+ */
+export async function contactSheet(snapshots: Snapshot[], title: string): Promise<Blob> {
+  if (snapshots.length === 0) throw new AppError({ code: 'no-photos' }, "No photos to put on a contact sheet.");
+  const images = await Promise.all(snapshots.map(snapshot => createImageBitmap(snapshot.blob)));
+  const columns = Math.min(4, images.length);
+  const rows = Math.ceil(images.length / columns);
+  const cellWidth = 320;
+  const cellHeight = Math.round(cellWidth * images[0].height / images[0].width);
+  const gap = 12;
+  const header = 64;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * cellWidth + (columns + 1) * gap;
+  canvas.height = header + rows * cellHeight + (rows + 1) * gap;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new AppError({ code: 'no-canvas' }, "Canvas 2D is not available.");
+  ctx.fillStyle = '#020617';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '900 28px sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(title, gap * 2, header / 2 + gap / 2);
+  images.forEach((image, i) => {
+    const x = gap + (i % columns) * (cellWidth + gap);
+    const y = header + gap + Math.floor(i / columns) * (cellHeight + gap);
+    ctx.drawImage(image, x, y, cellWidth, cellHeight);
+    image.close();
+  });
+  return canvasBlob(canvas, 'image/jpeg', 0.85);
+}
+
+export interface HighlightRecorder {
+  // File extension matching the recorder's container, e.g. "webm".
+  extension: string;
+  startWall: () => void;
+  // Ends the wall's clip; null when nothing was recorded.
+  endWall: () => Promise<Blob | null>;
+  // Ends the reel of every wall so far.
+  finish: () => Promise<Blob | null>;
+  cancel: () => void;
+}
+
+function stopRecorder(recorder: MediaRecorder, chunks: Blob[]): Promise<Blob | null> {
+  if (recorder.state === 'inactive') return Promise.resolve(chunks.length ? new Blob(chunks, { type: recorder.mimeType }) : null);
+  return new Promise(resolve => {
+    recorder.onstop = () => resolve(chunks.length ? new Blob(chunks, { type: recorder.mimeType }) : null);
+    recorder.stop();
+  });
+}
+
+function record(stream: MediaStream, mimeType: string): { recorder: MediaRecorder; chunks: Blob[] } {
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  return { recorder, chunks };
+}
+
+/**
+ * Records the game view: a separate clip per wall, and a reel that is paused
+ * between walls so it plays them back to back. Null when the browser can't
+ * record a canvas.
+ */
+export function createHighlightRecorder(view: HTMLCanvasElement): HighlightRecorder | null {
+  if (typeof MediaRecorder === 'undefined' || !view.captureStream) return null;
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) return null;
+
+  const stream = view.captureStream(CLIP_FPS);
+  const reel = record(stream, mimeType);
+  let clip: ReturnType<typeof record> | null = null;
+
+  const stopTracks = () => stream.getTracks().forEach(track => track.stop());
+
+  return {
+    extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm',
+    startWall: () => {
+      if (reel.recorder.state === 'inactive') reel.recorder.start(1000);
+      else if (reel.recorder.state === 'paused') reel.recorder.resume();
+      clip = record(stream, mimeType);
+      clip.recorder.start();
+    },
+    endWall: async () => {
+      if (reel.recorder.state === 'recording') reel.recorder.pause();
+      if (!clip) return null;
+      const { recorder, chunks } = clip;
+      clip = null;
+      return stopRecorder(recorder, chunks);
+    },
+    finish: async () => {
+      if (clip) clip.recorder.stop();
+      clip = null;
+      const blob = await stopRecorder(reel.recorder, reel.chunks);
+      stopTracks();
+      return blob;
+    },
+    cancel: () => {
+      if (clip && clip.recorder.state !== 'inactive') clip.recorder.stop();
+      if (reel.recorder.state !== 'inactive') reel.recorder.stop();
+      clip = null;
+      stopTracks();
+    }
+  };
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,114 @@
+import { Pose, PoseFrame, MatchResult, JudgeMode, ViewSettings } from "../types";
+import { MATCH_THRESHOLD } from "../constants";
+import { evaluatePoseWindow, WindowOptions } from "./poseWindow";
+import { evaluatePose } from "./geminiService";
+
+export interface JudgeInput {
+  pose: Pose;
+  frames: PoseFrame[];
+  now: number;
+  options?: WindowOptions;
+  // JPEG of the judging moment without the data: prefix, or null when there's no camera image.
+  captureImage: () => string | null;
+  // How the captured image is oriented and what left and right mean in the pose text.
+  view?: ViewSettings;
+  // English name of the language Gemini should write its feedback in, e.g. "Russian".
+  feedbackLanguage?: string;
+}
+
+export interface PoseJudge {
+  mode: JudgeMode;
+  judge(input: JudgeInput): Promise<MatchResult>;
+}
+
+export interface CloudJudgeOptions {
+  timeoutMs?: number;
+}
+
+export interface HybridJudgeOptions extends CloudJudgeOptions {
+  // Offline scores within this many points of the wall's threshold are escalated to Gemini.
+  ambiguousMargin?: number;
+}
+
+export type JudgeOptions = HybridJudgeOptions;
+
+const DEFAULT_TIMEOUT_MS = 4000;
+const DEFAULT_AMBIGUOUS_MARGIN = 15;
+
+function judgeOffline(input: JudgeInput): MatchResult {
+  const result = evaluatePoseWindow(input.frames, input.pose, input.now, input.options);
+  return { ...result, judgedBy: 'offline' };
+}
+
+/**
+ * Calls Gemini, giving up after `timeoutMs`. Rejects on any failure.
+ */
+async function judgeWithGemini(input: JudgeInput, timeoutMs: number): Promise<MatchResult> {
+  const image = input.captureImage();
+  if (!image) throw new Error("No camera frame to send.");
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const result = await evaluatePose(image, input.pose, controller.signal, input.view, input.feedbackLanguage);
+    // Clears the offline verdict's stock message code once merged over it.
+    return { ...result, feedbackCode: undefined, judgedBy: 'gemini' };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function createOfflineJudge(): PoseJudge {
+  return {
+    mode: 'offline',
+    judge: async input => judgeOffline(input)
+  };
+}
+
+/**
+ * Gemini decides every wall. Hold time and stability still come from the
+ * landmarks, and the offline verdict stands in when the request fails.
+ */
+export function createGeminiJudge({ timeoutMs = DEFAULT_TIMEOUT_MS }: CloudJudgeOptions = {}): PoseJudge {
+  return {
+    mode: 'gemini',
+    judge: async input => {
+      const offline = judgeOffline(input);
+      try {
+        const cloud = await judgeWithGemini(input, timeoutMs);
+        return { ...offline, ...cloud };
+      } catch (error) {
+        console.error("Gemini Evaluation Error:", error);
+        return offline;
+      }
+    }
+  };
+}
+
+/**
+ * Trusts clear offline verdicts and only asks Gemini about borderline scores,
+ * i.e. those close to the threshold the wall is judged at.
+ */
+export function createHybridJudge({ timeoutMs = DEFAULT_TIMEOUT_MS, ambiguousMargin = DEFAULT_AMBIGUOUS_MARGIN }: HybridJudgeOptions = {}): PoseJudge {
+  return {
+    mode: 'hybrid',
+    judge: async input => {
+      const offline = judgeOffline(input);
+      const threshold = input.options?.threshold ?? input.pose.threshold ?? MATCH_THRESHOLD;
+      if (Math.abs(offline.score - threshold) > ambiguousMargin) return offline;
+      try {
+        const cloud = await judgeWithGemini(input, timeoutMs);
+        return { ...offline, ...cloud };
+      } catch (error) {
+        console.error("Gemini Evaluation Error:", error);
+        return offline;
+      }
+    }
+  };
+}
+
+export function createJudge(mode: JudgeMode, options: JudgeOptions = {}): PoseJudge {
+  if (mode === 'gemini') return createGeminiJudge(options);
+  if (mode === 'hybrid') return createHybridJudge(options);
+  return createOfflineJudge();
+}
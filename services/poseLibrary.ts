@@ -0,0 +1,245 @@
+import { Pose, PoseFrame, LandmarkName, LimbName, Skeleton, PoseDefinition, LimbAngleRule, RelativePositionRule, JointAngleRule } from "../types";
+import { POSES } from "../constants";
+import { LANDMARK_INDEX, LIMB_JOINTS, JOINT_POINTS, toBodySkeleton, skeletonLimbAngle } from "./poseService";
+import { AppError } from "./errors";
+
+const STORAGE_KEY = 'neural-pulse.custom-poses';
+
+export const POSE_PACK_FORMAT = 'neural-pulse-pose-pack';
+export const POSE_PACK_VERSION = 1;
+
+export interface PosePack {
+  format: typeof POSE_PACK_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  poses: Pose[];
+}
+
+export interface PoseDraft {
+  name: string;
+  icon: string;
+  description: string;
+  // Allowed limb angle error in degrees.
+  tolerance: number;
+}
+
+/**
+ * Averages the body-frame skeletons of the captured frames. Returns null when
+ * a joint was never seen, since the reference would be incomplete.
+ */
+export function averageSkeleton(frames: PoseFrame[], aspectRatio?: number): Skeleton | null {
+  const skeletons = frames
+    .map(frame => toBodySkeleton(frame.landmarks, aspectRatio))
+    .filter((skeleton): skeleton is Partial<Skeleton> => skeleton !== null);
+  if (skeletons.length === 0) return null;
+
+  const averaged = {} as Skeleton;
+  for (const name of Object.keys(LANDMARK_INDEX) as LandmarkName[]) {
+    const points = skeletons.map(skeleton => skeleton[name]).filter(Boolean);
+    if (points.length === 0) return null;
+    averaged[name] = {
+      x: points.reduce((sum, p) => sum + p!.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p!.y, 0) / points.length
+    };
+  }
+  return averaged;
+}
+
+/**
+ * Turns a recorded skeleton into rules the offline evaluator understands.
+ */
+export function definitionFromSkeleton(reference: Skeleton, tolerance: number): PoseDefinition {
+  const limbs = (Object.keys(LIMB_JOINTS) as LimbName[]).map(limb => ({
+    limb,
+    angle: Math.round(skeletonLimbAngle(reference, limb) ?? 0),
+    tolerance,
+    // Legs barely move in most poses, so let the arms dominate.
+    weight: limb.toLowerCase().endsWith('arm') ? 1 : 0.5
+  }));
+  return { limbs, reference };
+}
+
+export function createCustomPose(draft: PoseDraft, reference: Skeleton): Pose {
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    name: draft.name,
+    description: draft.description,
+    icon: draft.icon,
+    definition: definitionFromSkeleton(reference, draft.tolerance),
+    feedback: { match: 'Spot on!', miss: `Match the "${draft.name}" shape.` },
+    custom: true
+  };
+}
+
+// Saved poses that no longer validate are dropped one by one, so they can't break every session.
+export function loadCustomPoses(): Pose[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap((pose, i) => {
+      try {
+        return [parsePose(pose, i)];
+      } catch (e) {
+        console.error("Custom Pose Load Error:", e);
+        return [];
+      }
+    });
+  } catch (e) {
+    console.error("Custom Pose Load Error:", e);
+    return [];
+  }
+}
+
+export function saveCustomPoses(poses: Pose[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(poses));
+}
+
+export function exportPosePack(poses: Pose[], name: string): string {
+  const pack: PosePack = {
+    format: POSE_PACK_FORMAT,
+    version: POSE_PACK_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    poses
+  };
+  return JSON.stringify(pack, null, 2);
+}
+
+/**
+ * Parses a pose pack file. Throws with a readable message when the file
+ * isn't a pack or was written by a newer version of the game.
+ */
+export function importPosePack(json: string, existing: Pose[]): Pose[] {
+  let pack: any;
+  try {
+    pack = JSON.parse(json);
+  } catch (e) {
+    throw new AppError({ code: 'not-json', file: 'pose-pack' }, "Pose pack is not valid JSON.");
+  }
+  if (pack?.format !== POSE_PACK_FORMAT) {
+    throw new AppError({ code: 'wrong-format', file: 'pose-pack' }, "File is not a Neural Pulse pose pack.");
+  }
+  if (typeof pack.version !== 'number' || pack.version > POSE_PACK_VERSION) {
+    throw new AppError({ code: 'unsupported-version', file: 'pose-pack', version: String(pack.version) }, `Unsupported pose pack version: ${pack.version}.`);
+  }
+
+  // Imported ids must not shadow built-in or already saved poses.
+  const taken = new Set([...POSES, ...existing].map(pose => pose.id));
+  return parsePoses(pack.poses).map((pose, i) => {
+    const id = taken.has(pose.id) ? `${pose.id}-${Date.now().toString(36)}${i}` : pose.id;
+    taken.add(id);
+    return { ...pose, id, custom: true };
+  });
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isWeight = (value: unknown) => value === undefined || (isNumber(value) && value >= 0);
+const isLandmark = (value: unknown): value is LandmarkName => typeof value === 'string' && Object.hasOwn(LANDMARK_INDEX, value);
+
+function parseLimbRule(rule: any, where: string): LimbAngleRule {
+  if (typeof rule?.limb !== 'string' || !Object.hasOwn(LIMB_JOINTS, rule.limb)) {
+    throw new AppError({ code: 'unknown-limb', pose: where, limb: String(rule?.limb) }, `Pose "${where}": unknown limb "${rule?.limb}".`);
+  }
+  if (!isNumber(rule.angle) || !isNumber(rule.tolerance) || rule.tolerance <= 0 || !isWeight(rule.weight)) {
+    throw new AppError({ code: 'invalid-limb-rule', pose: where, limb: rule.limb }, `Pose "${where}": ${rule.limb} needs a numeric angle, a positive tolerance and a non-negative weight.`);
+  }
+  return { limb: rule.limb, angle: rule.angle, tolerance: rule.tolerance, weight: rule.weight };
+}
+
+function parseJointRule(rule: any, where: string): JointAngleRule {
+  if (typeof rule?.joint !== 'string' || !Object.hasOwn(JOINT_POINTS, rule.joint)) {
+    throw new AppError({ code: 'unknown-joint', pose: where, joint: String(rule?.joint) }, `Pose "${where}": unknown joint "${rule?.joint}".`);
+  }
+  if (!isNumber(rule.angle) || !isNumber(rule.tolerance) || rule.tolerance <= 0 || !isWeight(rule.weight)) {
+    throw new AppError({ code: 'invalid-joint-rule', pose: where, joint: rule.joint }, `Pose "${where}": ${rule.joint} needs a numeric angle, a positive tolerance and a non-negative weight.`);
+  }
+  return { joint: rule.joint, angle: rule.angle, tolerance: rule.tolerance, weight: rule.weight };
+}
+
+function parseRelationRule(rule: any, where: string): RelativePositionRule {
+  if (!isLandmark(rule?.landmark) || !isLandmark(rule.relativeTo)) {
+    const landmark = String(isLandmark(rule?.landmark) ? rule.relativeTo : rule?.landmark);
+    throw new AppError({ code: 'unknown-landmark', pose: where, landmark }, `Pose "${where}": unknown landmark "${landmark}".`);
+  }
+  if (rule.axis !== 'x' && rule.axis !== 'y' && rule.axis !== 'distance') {
+    throw new AppError({ code: 'invalid-relation', pose: where }, `Pose "${where}": axis must be x, y or distance.`);
+  }
+  const bounded = (value: unknown) => value === undefined || isNumber(value);
+  if (!bounded(rule.min) || !bounded(rule.max) || (rule.min === undefined && rule.max === undefined) || !isWeight(rule.weight)) {
+    throw new AppError({ code: 'invalid-relation', pose: where }, `Pose "${where}": needs a numeric min or max and a non-negative weight.`);
+  }
+  return { landmark: rule.landmark, relativeTo: rule.relativeTo, axis: rule.axis, min: rule.min, max: rule.max, weight: rule.weight };
+}
+
+// A reference has to place every joint, since scoring and the silhouette read them all.
+function parseReference(reference: any, where: string): Skeleton {
+  const skeleton = {} as Skeleton;
+  for (const name of Object.keys(LANDMARK_INDEX) as LandmarkName[]) {
+    const point = reference?.[name];
+    if (!isNumber(point?.x) || !isNumber(point?.y)) {
+      throw new AppError({ code: 'incomplete-reference', pose: where, landmark: name }, `Pose "${where}": reference skeleton is missing ${name}.`);
+    }
+    skeleton[name] = { x: point.x, y: point.y };
+  }
+  return skeleton;
+}
+
+/**
+ * Checks every rule of an imported definition against the joints and limbs
+ * the evaluator knows, so a bad file is rejected here rather than failing
+ * mid-game.
+ */
+function parseDefinition(definition: any, where: string): PoseDefinition {
+  if (!Array.isArray(definition?.limbs)) {
+    throw new AppError({ code: 'missing-limbs', pose: where }, `Pose "${where}": limb rules are missing.`);
+  }
+  if (definition.relations !== undefined && !Array.isArray(definition.relations)) {
+    throw new AppError({ code: 'invalid-relation', pose: where }, `Pose "${where}": relations must be a list.`);
+  }
+  if (definition.joints !== undefined && !Array.isArray(definition.joints)) {
+    throw new AppError({ code: 'invalid-joints', pose: where }, `Pose "${where}": joints must be a list.`);
+  }
+  if (definition.standOn !== undefined && definition.standOn !== 'left' && definition.standOn !== 'right') {
+    throw new AppError({ code: 'invalid-stand-on', pose: where }, `Pose "${where}": standOn must be "left" or "right".`);
+  }
+  return {
+    limbs: definition.limbs.map((rule: unknown) => parseLimbRule(rule, where)),
+    relations: definition.relations?.map((rule: unknown) => parseRelationRule(rule, where)),
+    joints: definition.joints?.map((rule: unknown) => parseJointRule(rule, where)),
+    standOn: definition.standOn,
+    eitherSide: definition.eitherSide === true ? true : undefined,
+    reference: definition.reference !== undefined ? parseReference(definition.reference, where) : undefined
+  };
+}
+
+/**
+ * Validates one pose as read from a file or storage; `i` numbers it in errors.
+ */
+export function parsePose(pose: any, i: number): Pose {
+  if (typeof pose?.id !== 'string' || typeof pose.name !== 'string') {
+    throw new AppError({ code: 'invalid-pose', item: i + 1 }, `Pose #${i + 1} is malformed.`);
+  }
+  // Same range game configs accept: at 0 every wall passes, above 100 none can
+  if (pose.threshold !== undefined && !(isNumber(pose.threshold) && pose.threshold >= 1 && pose.threshold <= 100)) {
+    throw new AppError({ code: 'invalid-threshold', item: i + 1 }, `Pose #${i + 1}: threshold must be between 1 and 100.`);
+  }
+  return {
+    id: pose.id,
+    name: pose.name,
+    description: typeof pose.description === 'string' ? pose.description : '',
+    icon: typeof pose.icon === 'string' ? pose.icon : '⭐',
+    definition: parseDefinition(pose.definition, pose.name),
+    feedback: typeof pose.feedback?.match === 'string' && typeof pose.feedback?.miss === 'string'
+      ? { match: pose.feedback.match, miss: pose.feedback.miss }
+      : { match: 'Spot on!', miss: `Match the "${pose.name}" shape.` },
+    threshold: pose.threshold,
+    custom: true
+  };
+}
+
+function parsePoses(value: unknown): Pose[] {
+  if (!Array.isArray(value)) throw new AppError({ code: 'empty-file', file: 'pose-pack' }, "Pose list is missing.");
+  return value.map(parsePose);
+}
@@ -1,90 +1,473 @@
+import { Pose, MatchResult, Landmark, LandmarkName, LimbName, JointName, PoseDefinition, LimbAngleRule, RelativePositionRule, JointAngleRule, BodyPoint, Skeleton, JointDeviation, BodyCalibration } from "../types";
+import { MATCH_THRESHOLD } from "../constants";
 
-import { Pose, MatchResult } from "../types";
+// MediaPipe Pose landmark indices
+export const LANDMARK_INDEX: Record<LandmarkName, number> = {
+  nose: 0,
+  leftShoulder: 11,
+  rightShoulder: 12,
+  leftElbow: 13,
+  rightElbow: 14,
+  leftWrist: 15,
+  rightWrist: 16,
+  leftHip: 23,
+  rightHip: 24,
+  leftKnee: 25,
+  rightKnee: 26,
+  leftAnkle: 27,
+  rightAnkle: 28
+};
 
-export function evaluatePoseOffline(landmarks: any[], targetPose: Pose): MatchResult {
+// Proximal and distal joint of every limb segment
+export const LIMB_JOINTS: Record<LimbName, [LandmarkName, LandmarkName]> = {
+  leftUpperArm: ['leftShoulder', 'leftElbow'],
+  leftForearm: ['leftElbow', 'leftWrist'],
+  rightUpperArm: ['rightShoulder', 'rightElbow'],
+  rightForearm: ['rightElbow', 'rightWrist'],
+  leftThigh: ['leftHip', 'leftKnee'],
+  leftShin: ['leftKnee', 'leftAnkle'],
+  rightThigh: ['rightHip', 'rightKnee'],
+  rightShin: ['rightKnee', 'rightAnkle']
+};
+
+// The joint and its two neighbours, whose segments form the joint's angle
+export const JOINT_POINTS: Record<JointName, [LandmarkName, LandmarkName, LandmarkName]> = {
+  leftShoulder: ['leftHip', 'leftShoulder', 'leftElbow'],
+  rightShoulder: ['rightHip', 'rightShoulder', 'rightElbow'],
+  leftElbow: ['leftShoulder', 'leftElbow', 'leftWrist'],
+  rightElbow: ['rightShoulder', 'rightElbow', 'rightWrist'],
+  leftHip: ['leftShoulder', 'leftHip', 'leftKnee'],
+  rightHip: ['rightShoulder', 'rightHip', 'rightKnee'],
+  leftKnee: ['leftHip', 'leftKnee', 'leftAnkle'],
+  rightKnee: ['rightHip', 'rightKnee', 'rightAnkle']
+};
+
+// Segments drawn when rendering a skeleton: the limbs plus the torso outline.
+export const SKELETON_BONES: [LandmarkName, LandmarkName][] = [
+  ...Object.values(LIMB_JOINTS),
+  ['leftShoulder', 'rightShoulder'],
+  ['leftHip', 'rightHip'],
+  ['leftShoulder', 'leftHip'],
+  ['rightShoulder', 'rightHip']
+];
+
+export interface EvaluateOptions {
+  // Frame width / height. Landmarks are normalized per axis, so angles need it.
+  aspectRatio?: number;
+  // Minimum score for a match; falls back to the pose's own threshold, then MATCH_THRESHOLD.
+  threshold?: number;
+  // The player's measured proportions, which steady the body-frame scale.
+  calibration?: BodyCalibration;
+}
+
+export const DEFAULT_ASPECT_RATIO = 640 / 480;
+
+// Share of the score coming from the pose rules; the rest is skeleton distance.
+const RULE_WEIGHT = 0.7;
+// How far (torso lengths) a landmark may stray outside a relation range before it scores 0.
+const RELATION_FALLOFF = 0.3;
+// Height (torso lengths) the lifted foot needs above the standing one to count as off the ground.
+const LIFTED_FOOT = 0.25;
+// Standing on the wrong leg, or on both, weighs like two rules.
+const STANCE_WEIGHT = 2;
+// Joint distance (torso lengths) to the reference skeleton that scores 0.
+const POSITION_FALLOFF = 0.6;
+
+// Average adult proportions in torso lengths, used to build reference skeletons.
+const BODY_PROPORTIONS = {
+  shoulderHalfWidth: 0.4,
+  hipHalfWidth: 0.2,
+  neckToNose: 0.45,
+  upperArm: 0.6,
+  forearm: 0.55,
+  thigh: 0.85,
+  shin: 0.85
+};
+
+// Where limbs rest when a pose doesn't say anything about them.
+const RESTING_ANGLES: Record<LimbName, number> = {
+  leftUpperArm: -80,
+  leftForearm: -85,
+  rightUpperArm: -80,
+  rightForearm: -85,
+  leftThigh: -88,
+  leftShin: -90,
+  rightThigh: -88,
+  rightShin: -90
+};
+
+type BodyFrame = (name: LandmarkName) => BodyPoint | null;
+
+export interface BodyAnchor {
+  // Mid-hip point in raw normalized frame coordinates.
+  hip: { x: number; y: number };
+  // Torso length in frame-height units.
+  torso: number;
+  // 1 when the player faces the camera, -1 when they face away.
+  side: 1 | -1;
+  aspectRatio: number;
+}
+
+/**
+ * Where the body frame sits in the camera frame, or null when the torso isn't visible.
+ *
+ * With a calibration the scale is the average of the torso length and the
+ * shoulder width converted to torso lengths by the player's own proportions,
+ * so leaning (short torso) or turning (narrow shoulders) distorts it less.
+ */
+export function bodyAnchor(landmarks: Landmark[], aspectRatio: number = DEFAULT_ASPECT_RATIO, calibration?: BodyCalibration): BodyAnchor | null {
+  const get = (name: LandmarkName) => landmarks[LANDMARK_INDEX[name]];
+  const lShoulder = get('leftShoulder');
+  const rShoulder = get('rightShoulder');
+  const lHip = get('leftHip');
+  const rHip = get('rightHip');
+  if (!lShoulder || !rShoulder || !lHip || !rHip) return null;
+
+  const midShoulder = { x: (lShoulder.x + rShoulder.x) / 2, y: (lShoulder.y + rShoulder.y) / 2 };
+  const midHip = { x: (lHip.x + rHip.x) / 2, y: (lHip.y + rHip.y) / 2 };
+  let torso = Math.hypot((midShoulder.x - midHip.x) * aspectRatio, midShoulder.y - midHip.y);
+  if (calibration && calibration.shoulderWidth > 0) {
+    const shoulders = Math.hypot((lShoulder.x - rShoulder.x) * aspectRatio, lShoulder.y - rShoulder.y);
+    torso = (torso + (shoulders * calibration.torsoLength) / calibration.shoulderWidth) / 2;
+  }
+  if (torso === 0) return null;
+
+  // Facing the camera, the anatomical left shoulder has the larger x in the raw frame.
+  const side = lShoulder.x >= rShoulder.x ? 1 : -1;
+  return { hip: midHip, torso, side, aspectRatio };
+}
+
+/**
+ * Inverse of the body frame: a body-frame point back in raw normalized frame coordinates.
+ */
+export function fromBodyPoint(anchor: BodyAnchor, point: BodyPoint): { x: number; y: number } {
+  return {
+    x: anchor.hip.x + (point.x * anchor.torso * anchor.side) / anchor.aspectRatio,
+    y: anchor.hip.y - point.y * anchor.torso
+  };
+}
+
+/**
+ * Maps raw landmarks into a body frame centred on the hips and scaled by the
+ * torso, so rules don't depend on where the player stands or how big they are.
+ */
+function toBodyFrame(landmarks: Landmark[], aspectRatio: number, calibration?: BodyCalibration): BodyFrame | null {
+  const anchor = bodyAnchor(landmarks, aspectRatio, calibration);
+  if (!anchor) return null;
+  const { hip, torso, side } = anchor;
+
+  return (name: LandmarkName) => {
+    const lm = landmarks[LANDMARK_INDEX[name]];
+    if (!lm) return null;
+    return {
+      x: ((lm.x - hip.x) * aspectRatio * side) / torso,
+      y: (hip.y - lm.y) / torso
+    };
+  };
+}
+
+/**
+ * All named landmarks in the body frame, or null when the torso isn't visible.
+ */
+export function toBodySkeleton(landmarks: Landmark[], aspectRatio: number = DEFAULT_ASPECT_RATIO, calibration?: BodyCalibration): Partial<Skeleton> | null {
+  const frame = landmarks ? toBodyFrame(landmarks, aspectRatio, calibration) : null;
+  if (!frame) return null;
+  const skeleton: Partial<Skeleton> = {};
+  (Object.keys(LANDMARK_INDEX) as LandmarkName[]).forEach(name => {
+    const point = frame(name);
+    if (point) skeleton[name] = point;
+  });
+  return skeleton;
+}
+
+function limbAngle(frame: BodyFrame, limb: LimbName): number | null {
+  const [from, to] = LIMB_JOINTS[limb];
+  const a = frame(from);
+  const b = frame(to);
+  if (!a || !b) return null;
+  // Right limbs point outwards along -x, so flip them to share one convention.
+  const outward = limb.startsWith('left') ? b.x - a.x : a.x - b.x;
+  return (Math.atan2(b.y - a.y, outward) * 180) / Math.PI;
+}
+
+/**
+ * Limb direction within a body-frame skeleton, same convention as LimbAngleRule.
+ */
+export function skeletonLimbAngle(skeleton: Partial<Skeleton>, limb: LimbName): number | null {
+  return limbAngle(name => skeleton[name] ?? null, limb);
+}
+
+function jointAngle(frame: BodyFrame, joint: JointName): number | null {
+  const [a, b, c] = JOINT_POINTS[joint].map(frame);
+  if (!a || !b || !c) return null;
+  const degrees = Math.abs(Math.atan2(a.y - b.y, a.x - b.x) - Math.atan2(c.y - b.y, c.x - b.x)) * 180 / Math.PI;
+  return degrees > 180 ? 360 - degrees : degrees;
+}
+
+/**
+ * Inner joint angle within a body-frame skeleton, same convention as JointAngleRule.
+ */
+export function skeletonJointAngle(skeleton: Partial<Skeleton>, joint: JointName): number | null {
+  return jointAngle(name => skeleton[name] ?? null, joint);
+}
+
+/**
+ * Horizontal distance between the ankles, in torso lengths.
+ */
+export function stanceWidth(skeleton: Partial<Skeleton>): number | null {
+  const { leftAnkle, rightAnkle } = skeleton;
+  return leftAnkle && rightAnkle ? Math.abs(leftAnkle.x - rightAnkle.x) : null;
+}
+
+/**
+ * The leg carrying the weight when the other foot is clearly off the ground,
+ * 'both' with both feet down, null when the ankles aren't visible.
+ */
+export function standingLeg(skeleton: Partial<Skeleton>): 'left' | 'right' | 'both' | null {
+  const { leftAnkle, rightAnkle } = skeleton;
+  if (!leftAnkle || !rightAnkle) return null;
+  if (rightAnkle.y - leftAnkle.y >= LIFTED_FOOT) return 'left';
+  if (leftAnkle.y - rightAnkle.y >= LIFTED_FOOT) return 'right';
+  return 'both';
+}
+
+export function angleDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * 1 for a perfect angle, 0.5 at the edge of the tolerance, 0 at twice the tolerance.
+ */
+function scoreLimbRule(frame: BodyFrame, rule: LimbAngleRule): number {
+  const angle = limbAngle(frame, rule.limb);
+  if (angle === null) return 0;
+  return clamp01(1 - angleDifference(angle, rule.angle) / (2 * rule.tolerance));
+}
+
+function scoreJointRule(frame: BodyFrame, rule: JointAngleRule): number {
+  const angle = jointAngle(frame, rule.joint);
+  if (angle === null) return 0;
+  return clamp01(1 - Math.abs(angle - rule.angle) / (2 * rule.tolerance));
+}
+
+/**
+ * 1 once the other foot is LIFTED_FOOT above the standing one, fading to 0
+ * over RELATION_FALLOFF below that.
+ */
+function scoreStance(frame: BodyFrame, standOn: 'left' | 'right'): number {
+  const standing = frame(standOn === 'left' ? 'leftAnkle' : 'rightAnkle');
+  const lifted = frame(standOn === 'left' ? 'rightAnkle' : 'leftAnkle');
+  if (!standing || !lifted) return 0;
+  return clamp01(1 - Math.max(0, LIFTED_FOOT - (lifted.y - standing.y)) / RELATION_FALLOFF);
+}
+
+/**
+ * 1 inside the allowed range, fading to 0 over RELATION_FALLOFF outside it.
+ */
+function scoreRelationRule(frame: BodyFrame, rule: RelativePositionRule): number {
+  const a = frame(rule.landmark);
+  const b = frame(rule.relativeTo);
+  if (!a || !b) return 0;
+
+  let value: number;
+  if (rule.axis === 'x') value = a.x - b.x;
+  else if (rule.axis === 'y') value = a.y - b.y;
+  else value = Math.hypot(a.x - b.x, a.y - b.y);
+
+  let overshoot = 0;
+  if (rule.min !== undefined && value < rule.min) overshoot = rule.min - value;
+  if (rule.max !== undefined && value > rule.max) overshoot = value - rule.max;
+  return clamp01(1 - overshoot / RELATION_FALLOFF);
+}
+
+/**
+ * Weighted mean of the rule scores, 0-1.
+ */
+function scoreRules(frame: BodyFrame, definition: PoseDefinition): number {
+  let total = 0;
+  let sum = 0;
+
+  for (const rule of definition.limbs) {
+    const weight = rule.weight ?? 1;
+    total += weight;
+    sum += weight * scoreLimbRule(frame, rule);
+  }
+  for (const rule of definition.relations ?? []) {
+    const weight = rule.weight ?? 1;
+    total += weight;
+    sum += weight * scoreRelationRule(frame, rule);
+  }
+  for (const rule of definition.joints ?? []) {
+    const weight = rule.weight ?? 1;
+    total += weight;
+    sum += weight * scoreJointRule(frame, rule);
+  }
+  if (definition.standOn) {
+    total += STANCE_WEIGHT;
+    sum += STANCE_WEIGHT * scoreStance(frame, definition.standOn);
+  }
+
+  return total > 0 ? sum / total : 0;
+}
+
+/**
+ * Builds the body-frame skeleton a pose describes, using average proportions
+ * and resting angles for the limbs the definition leaves free.
+ */
+export function buildReferenceSkeleton(definition: PoseDefinition): Skeleton {
+  const p = BODY_PROPORTIONS;
+  const angles: Record<LimbName, number> = { ...RESTING_ANGLES };
+  for (const rule of definition.limbs) angles[rule.limb] = rule.angle;
+
+  const skeleton = {
+    nose: { x: 0, y: 1 + p.neckToNose },
+    leftShoulder: { x: p.shoulderHalfWidth, y: 1 },
+    rightShoulder: { x: -p.shoulderHalfWidth, y: 1 },
+    leftHip: { x: p.hipHalfWidth, y: 0 },
+    rightHip: { x: -p.hipHalfWidth, y: 0 }
+  } as Skeleton;
+
+  const extend = (limb: LimbName, length: number) => {
+    const [from, to] = LIMB_JOINTS[limb];
+    const start = skeleton[from];
+    const radians = (angles[limb] * Math.PI) / 180;
+    const outward = limb.startsWith('left') ? 1 : -1;
+    skeleton[to] = {
+      x: start.x + Math.cos(radians) * length * outward,
+      y: start.y + Math.sin(radians) * length
+    };
+  };
+
+  extend('leftUpperArm', p.upperArm);
+  extend('leftForearm', p.forearm);
+  extend('rightUpperArm', p.upperArm);
+  extend('rightForearm', p.forearm);
+  extend('leftThigh', p.thigh);
+  extend('leftShin', p.shin);
+  extend('rightThigh', p.thigh);
+  extend('rightShin', p.shin);
+
+  return skeleton;
+}
+
+/**
+ * Similarity of the joints a pose constrains to its reference skeleton, 0-1.
+ */
+function scorePositions(frame: BodyFrame, definition: PoseDefinition): number | null {
+  const reference = definition.reference ?? buildReferenceSkeleton(definition);
+  const joints = new Set<LandmarkName>();
+  for (const rule of definition.limbs) joints.add(LIMB_JOINTS[rule.limb][1]);
+  if (joints.size === 0) return null;
+
+  let sum = 0;
+  joints.forEach(joint => {
+    const actual = frame(joint);
+    if (!actual) return;
+    const target = reference[joint];
+    sum += clamp01(1 - Math.hypot(actual.x - target.x, actual.y - target.y) / POSITION_FALLOFF);
+  });
+  return sum / joints.size;
+}
+
+/**
+ * Limbs more than half their tolerance off, with the direction the far joint
+ * would have to move back, largest weighted error first.
+ */
+function limbDeviations(frame: BodyFrame, definition: PoseDefinition): JointDeviation[] {
+  const deviations: (JointDeviation & { weighted: number })[] = [];
+  for (const rule of definition.limbs) {
+    const angle = limbAngle(frame, rule.limb);
+    if (angle === null) continue;
+    const degrees = angleDifference(angle, rule.angle);
+    if (degrees <= rule.tolerance / 2) continue;
+
+    // Compare unit vectors (outward, up) so the direction reads the same for every limb.
+    const dx = Math.cos((angle * Math.PI) / 180) - Math.cos((rule.angle * Math.PI) / 180);
+    const dy = Math.sin((angle * Math.PI) / 180) - Math.sin((rule.angle * Math.PI) / 180);
+    const direction = Math.abs(dy) >= Math.abs(dx) ? (dy > 0 ? 'high' : 'low') : (dx > 0 ? 'out' : 'in');
+    deviations.push({ limb: rule.limb, joint: LIMB_JOINTS[rule.limb][1], degrees: Math.round(degrees), direction, weighted: degrees * (rule.weight ?? 1) });
+  }
+  return deviations
+    .sort((a, b) => b.weighted - a.weighted)
+    .map(({ weighted, ...deviation }) => deviation);
+}
+
+function scoreDefinition(frame: BodyFrame, definition: PoseDefinition): number {
+  const rules = scoreRules(frame, definition);
+  const positions = scorePositions(frame, definition);
+  if (positions === null) return rules;
+  return RULE_WEIGHT * rules + (1 - RULE_WEIGHT) * positions;
+}
+
+function swapSide<T extends string>(name: T): T {
+  if (name.startsWith('left')) return ('right' + name.slice(4)) as T;
+  if (name.startsWith('right')) return ('left' + name.slice(5)) as T;
+  return name;
+}
+
+/**
+ * The same pose performed with the other side of the body.
+ */
+export function mirrorDefinition(definition: PoseDefinition): PoseDefinition {
+  return {
+    ...definition,
+    limbs: definition.limbs.map(rule => ({ ...rule, limb: swapSide(rule.limb) })),
+    relations: definition.relations?.map(rule => {
+      const mirrored = { ...rule, landmark: swapSide(rule.landmark), relativeTo: swapSide(rule.relativeTo) };
+      if (rule.axis === 'x') {
+        mirrored.min = rule.max !== undefined ? -rule.max : undefined;
+        mirrored.max = rule.min !== undefined ? -rule.min : undefined;
+      }
+      return mirrored;
+    }),
+    joints: definition.joints?.map(rule => ({ ...rule, joint: swapSide(rule.joint) })),
+    standOn: definition.standOn ? swapSide(definition.standOn) : undefined,
+    reference: definition.reference && mirrorSkeleton(definition.reference)
+  };
+}
+
+export function mirrorSkeleton(skeleton: Skeleton): Skeleton {
+  const mirrored = {} as Skeleton;
+  (Object.keys(skeleton) as LandmarkName[]).forEach(name => {
+    mirrored[swapSide(name)] = { x: -skeleton[name].x, y: skeleton[name].y };
+  });
+  return mirrored;
+}
+
+/**
+ * Grades how closely the landmarks match the pose: a 0-100 similarity built
+ * from limb angles, relative positions and distance to the reference skeleton.
+ */
+export function evaluatePoseOffline(landmarks: Landmark[], targetPose: Pose, options: EvaluateOptions = {}): MatchResult {
   if (!landmarks || landmarks.length === 0) {
-    return { matched: false, score: 0, feedback: "No body detected. Stand back!" };
+    return { matched: false, score: 0, feedback: "No body detected. Stand back!", feedbackCode: 'no-body' };
   }
 
-  // Helper to get landmark by index
-  const getLM = (index: number) => landmarks[index];
-
-  // Key landmarks
-  const nose = getLM(0);
-  const lShoulder = getLM(11);
-  const rShoulder = getLM(12);
-  const lElbow = getLM(13);
-  const rElbow = getLM(14);
-  const lWrist = getLM(15);
-  const rWrist = getLM(16);
-  const lHip = getLM(23);
-  const rHip = getLM(24);
-
-  let isMatch = false;
-  let score = 0;
-  let feedback = "Try harder!";
-
-  // Note: MediaPipe Y-axis is 0 at top, 1 at bottom.
-  // Wrist above shoulder means wrist.y < shoulder.y
-
-  switch (targetPose.id) {
-    case 't-pose':
-      // Arms horizontal: wrists near shoulder height and far from center
-      const lArmHoriz = Math.abs(lWrist.y - lShoulder.y) < 0.15;
-      const rArmHoriz = Math.abs(rWrist.y - rShoulder.y) < 0.15;
-      const spread = Math.abs(lWrist.x - rWrist.x) > 0.4;
-      isMatch = lArmHoriz && rArmHoriz && spread;
-      score = isMatch ? 95 : 20;
-      feedback = isMatch ? "Perfect T-Shape!" : "Extend your arms fully to the sides.";
-      break;
-
-    case 'victory-v':
-      // Both wrists significantly above shoulders and spread apart
-      const lUp = lWrist.y < lShoulder.y - 0.2;
-      const rUp = rWrist.y < rShoulder.y - 0.2;
-      const vSpread = Math.abs(lWrist.x - rWrist.x) > 0.3;
-      isMatch = lUp && rUp && vSpread;
-      score = isMatch ? 90 : 15;
-      feedback = isMatch ? "Victory attained!" : "Raise your hands high in a V!";
-      break;
-
-    case 'hands-on-hips':
-      // Wrists near hips, elbows out
-      const lHandHip = Math.sqrt(Math.pow(lWrist.x - lHip.x, 2) + Math.pow(lWrist.y - lHip.y, 2)) < 0.2;
-      const rHandHip = Math.sqrt(Math.pow(rWrist.x - rHip.x, 2) + Math.pow(rWrist.y - rHip.y, 2)) < 0.2;
-      const elbowsOut = lElbow.x < lShoulder.x - 0.05 && rElbow.x > rShoulder.x + 0.05;
-      isMatch = lHandHip && rHandHip;
-      score = isMatch ? 85 : 30;
-      feedback = isMatch ? "Looking heroic!" : "Put your hands on your hips.";
-      break;
-
-    case 'hands-on-head':
-      // Wrists near or above shoulders and close to head (nose)
-      const lNearHead = Math.sqrt(Math.pow(lWrist.x - nose.x, 2) + Math.pow(lWrist.y - nose.y, 2)) < 0.25;
-      const rNearHead = Math.sqrt(Math.pow(rWrist.x - nose.x, 2) + Math.pow(rWrist.y - nose.y, 2)) < 0.25;
-      isMatch = lNearHead && rNearHead && lWrist.y < lShoulder.y;
-      score = isMatch ? 88 : 10;
-      feedback = isMatch ? "Mind status: Blown!" : "Hands on your head!";
-      break;
-
-    case 'right-arm-up':
-      // Right wrist high, left wrist low
-      const rHigh = rWrist.y < rShoulder.y - 0.3;
-      const lLow = lWrist.y > lShoulder.y;
-      isMatch = rHigh && lLow;
-      score = isMatch ? 92 : 25;
-      feedback = isMatch ? "Reaching the stars!" : "Raise only your right hand.";
-      break;
-
-    case 'arms-crossed':
-      // Wrists cross the centerline or opposite shoulders
-      // Since video is mirrored, we check if wrists cross each other's x
-      const crossed = lWrist.x > rWrist.x; // In MP coords, left wrist is normally < right wrist
-      isMatch = crossed && Math.abs(lWrist.y - lShoulder.y) < 0.3;
-      score = isMatch ? 80 : 20;
-      feedback = isMatch ? "Power pose active!" : "Cross your arms over your chest.";
-      break;
+  const frame = toBodyFrame(landmarks, options.aspectRatio ?? DEFAULT_ASPECT_RATIO, options.calibration);
+  if (!frame) {
+    return { matched: false, score: 0, feedback: "No body detected. Stand back!", feedbackCode: 'no-body' };
   }
 
-  return { matched: isMatch, score: isMatch ? score : 0, feedback };
+  let definition = targetPose.definition;
+  let similarity = scoreDefinition(frame, definition);
+  if (definition.eitherSide) {
+    const mirrored = mirrorDefinition(definition);
+    const mirroredSimilarity = scoreDefinition(frame, mirrored);
+    if (mirroredSimilarity > similarity) {
+      definition = mirrored;
+      similarity = mirroredSimilarity;
+    }
+  }
+
+  const score = Math.round(similarity * 100);
+  const threshold = options.threshold ?? targetPose.threshold ?? MATCH_THRESHOLD;
+  const isMatch = score >= threshold;
+  const feedback = isMatch ? targetPose.feedback.match : targetPose.feedback.miss;
+
+  return { matched: isMatch, score, feedback, feedbackCode: isMatch ? 'match' : 'miss', deviations: limbDeviations(frame, definition) };
 }
@@ -0,0 +1,124 @@
+import { Landmark, PoseFrame } from "../types";
+
+// Served from our own origin by plugins/offline.ts, so inference works offline.
+const WASM_PATH = '/mediapipe/tasks-vision';
+const MODEL_PATH = '/models/pose_landmarker_lite.task';
+
+export type PoseWorkerRequest =
+  | { type: 'init'; wasmPath: string; modelPath: string }
+  | { type: 'frame'; frame: ImageBitmap; t: number };
+
+export type PoseWorkerResponse =
+  | { type: 'ready'; delegate: 'GPU' | 'CPU' }
+  | { type: 'result'; t: number; landmarks: Landmark[] | null }
+  | { type: 'error'; message: string };
+
+export interface PoseTrackerHandlers {
+  // The model has loaded and frames are accepted from now on.
+  onReady: () => void;
+  // `t` is the performance.now() time the frame was captured at.
+  onResult: (t: number, landmarks: Landmark[] | null) => void;
+  // The model failed to load; the tracker will never produce results.
+  onInitError: (message: string) => void;
+  // A single frame failed; later frames may still work.
+  onError: (message: string) => void;
+}
+
+export interface PoseTracker {
+  // Queues the video's current frame; false while the worker is still busy or loading.
+  send: (video: HTMLVideoElement) => boolean;
+  close: () => void;
+}
+
+/**
+ * Starts the inference worker. Only one frame is in flight at a time, so a
+ * slow model drops frames instead of falling behind.
+ */
+export function createPoseTracker(handlers: PoseTrackerHandlers): PoseTracker {
+  const worker = new Worker(new URL('./poseWorker.ts', import.meta.url), { type: 'module' });
+  let ready = false;
+  let busy = false;
+  let closed = false;
+
+  worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'ready') {
+      ready = true;
+      if (!closed) handlers.onReady();
+    } else if (message.type === 'result') {
+      busy = false;
+      if (!closed) handlers.onResult(message.t, message.landmarks);
+    } else {
+      busy = false;
+      if (closed) return;
+      if (ready) handlers.onError(message.message);
+      else handlers.onInitError(message.message);
+    }
+  };
+  worker.onerror = event => {
+    if (closed) return;
+    if (ready) handlers.onError(event.message);
+    else handlers.onInitError(event.message);
+  };
+  worker.postMessage({ type: 'init', wasmPath: WASM_PATH, modelPath: MODEL_PATH } satisfies PoseWorkerRequest);
+
+  return {
+    send: video => {
+      if (!ready || busy || closed) return false;
+      busy = true;
+      const t = performance.now();
+      createImageBitmap(video)
+        .then(frame => worker.postMessage({ type: 'frame', frame, t } satisfies PoseWorkerRequest, [frame]))
+        .catch(() => { busy = false; });
+      return true;
+    },
+    close: () => {
+      closed = true;
+      worker.terminate();
+    }
+  };
+}
+
+// The two latest results, so the overlay can move smoothly between them.
+export interface DisplayFrames {
+  previous: PoseFrame | null;
+  latest: PoseFrame | null;
+  // performance.now() when `latest` arrived.
+  receivedAt: number;
+}
+
+export const EMPTY_DISPLAY: DisplayFrames = { previous: null, latest: null, receivedAt: 0 };
+
+// Gaps longer than this are treated as a fresh start rather than blended across.
+const MAX_BLEND_MS = 250;
+
+export function advanceDisplay(display: DisplayFrames, frame: PoseFrame | null, receivedAt: number): DisplayFrames {
+  if (!frame) return EMPTY_DISPLAY;
+  const previous = display.latest && frame.t - display.latest.t <= MAX_BLEND_MS ? display.latest : null;
+  return { previous, latest: frame, receivedAt };
+}
+
+/**
+ * Landmarks to draw at `now`. Rendering trails inference by one result: each
+ * new result is reached over the time the one before it took, which keeps the
+ * skeleton moving even when the model runs slower than the display.
+ */
+export function displayLandmarks(display: DisplayFrames, now: number): Landmark[] | null {
+  const { previous, latest } = display;
+  if (!latest) return null;
+  if (!previous) return latest.landmarks;
+  const interval = Math.max(1, latest.t - previous.t);
+  const alpha = Math.min(1, Math.max(0, (now - display.receivedAt) / interval));
+  if (alpha >= 1) return latest.landmarks;
+  return latest.landmarks.map((to, i) => {
+    const from = previous.landmarks[i];
+    if (!from) return to;
+    const lerp = (a: number, b: number) => a + (b - a) * alpha;
+    return {
+      ...to,
+      x: lerp(from.x, to.x),
+      y: lerp(from.y, to.y),
+      z: from.z !== undefined && to.z !== undefined ? lerp(from.z, to.z) : to.z
+    };
+  });
+}
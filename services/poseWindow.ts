@@ -0,0 +1,152 @@
+import { Pose, MatchResult, PoseFrame, LandmarkName, FeedbackCode } from "../types";
+import { JUDGE_WINDOW_MS, MIN_HOLD_MS, MATCH_THRESHOLD } from "../constants";
+import { evaluatePoseOffline, toBodySkeleton, bodyAnchor, standingLeg, DEFAULT_ASPECT_RATIO, EvaluateOptions } from "./poseService";
+
+export interface WindowOptions extends EvaluateOptions {
+  windowMs?: number;
+  minHoldMs?: number;
+}
+
+// Frames older than this are dropped from the buffer.
+const BUFFER_MS = 3000;
+// Average joint wobble (torso lengths) at which stability reaches 0.
+const STABILITY_FALLOFF = 0.15;
+// Hip sway (torso lengths) over the standing foot at which balance reaches 0.
+const BALANCE_FALLOFF = 0.1;
+// One-leg poses wobbling more than this are not held.
+const MIN_BALANCE = 0.5;
+const STABILITY_JOINTS: LandmarkName[] = [
+  'leftElbow', 'rightElbow', 'leftWrist', 'rightWrist', 'leftKnee', 'rightKnee', 'leftAnkle', 'rightAnkle'
+];
+
+/**
+ * Appends a frame and drops the ones that fell out of the buffer.
+ */
+export function pushFrame(buffer: PoseFrame[], frame: PoseFrame, maxAgeMs: number = BUFFER_MS): void {
+  buffer.push(frame);
+  const cutoff = frame.t - maxAgeMs;
+  let stale = 0;
+  while (stale < buffer.length && buffer[stale].t < cutoff) stale++;
+  if (stale > 0) buffer.splice(0, stale);
+}
+
+export function framesInWindow(buffer: PoseFrame[], now: number, windowMs: number): PoseFrame[] {
+  return buffer.filter(frame => frame.t >= now - windowMs && frame.t <= now);
+}
+
+/**
+ * Time of the first frame between `from` and `to` that matches the pose, or null.
+ */
+export function firstMatchTime(buffer: PoseFrame[], pose: Pose, from: number, to: number, options: EvaluateOptions = {}): number | null {
+  const frame = buffer.find(frame =>
+    frame.t >= from && frame.t <= to && evaluatePoseOffline(frame.landmarks, pose, options).matched
+  );
+  return frame ? frame.t : null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * 1 for a perfectly still body, falling towards 0 as the joints wobble.
+ */
+function measureStability(frames: PoseFrame[], options: EvaluateOptions): number {
+  const skeletons = frames.map(frame => toBodySkeleton(frame.landmarks, options.aspectRatio, options.calibration)).filter(Boolean);
+  if (skeletons.length < 2) return 0;
+
+  let spread = 0;
+  let joints = 0;
+  for (const joint of STABILITY_JOINTS) {
+    const points = skeletons.map(s => s![joint]).filter(Boolean);
+    if (points.length < 2) continue;
+    const meanX = points.reduce((sum, p) => sum + p!.x, 0) / points.length;
+    const meanY = points.reduce((sum, p) => sum + p!.y, 0) / points.length;
+    const variance = points.reduce((sum, p) => sum + (p!.x - meanX) ** 2 + (p!.y - meanY) ** 2, 0) / points.length;
+    spread += Math.sqrt(variance);
+    joints++;
+  }
+  if (joints === 0) return 0;
+  return Math.max(0, 1 - spread / joints / STABILITY_FALLOFF);
+}
+
+function deviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+/**
+ * 1 for hips held still over one standing foot, falling towards 0 as they
+ * sway, the whole body drifts sideways, or the lifted foot touches down.
+ */
+function measureBalance(frames: PoseFrame[], options: EvaluateOptions): number {
+  const aspectRatio = options.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+  const overFoot: number[] = [];
+  const drift: number[] = [];
+  for (const frame of frames) {
+    const skeleton = toBodySkeleton(frame.landmarks, aspectRatio, options.calibration);
+    const anchor = bodyAnchor(frame.landmarks, aspectRatio, options.calibration);
+    const leg = skeleton && standingLeg(skeleton);
+    if (!skeleton || !anchor || (leg !== 'left' && leg !== 'right')) continue;
+    // The body frame is centred on the hips, so the foot's offset is the hips' offset over it
+    overFoot.push(skeleton[leg === 'left' ? 'leftAnkle' : 'rightAnkle']!.x);
+    drift.push(anchor.hip.x * aspectRatio / anchor.torso);
+  }
+  if (overFoot.length < 2) return 0;
+  const sway = deviation(overFoot) + deviation(drift);
+  return (overFoot.length / frames.length) * Math.max(0, 1 - sway / BALANCE_FALLOFF);
+}
+
+/**
+ * Judges the pose over the frames in the window ending at `now`. The score is
+ * the median frame score, and the pose only counts once it has been held for
+ * `minHoldMs` without a break.
+ */
+export function evaluatePoseWindow(buffer: PoseFrame[], targetPose: Pose, now: number, options: WindowOptions = {}): MatchResult {
+  const windowMs = options.windowMs ?? JUDGE_WINDOW_MS;
+  const minHoldMs = options.minHoldMs ?? MIN_HOLD_MS;
+  const frames = framesInWindow(buffer, now, windowMs);
+
+  if (frames.length === 0) {
+    return { matched: false, score: 0, feedback: "No body detected. Stand back!", feedbackCode: 'no-body', holdMs: 0, stability: 0 };
+  }
+
+  const results = frames.map(frame => evaluatePoseOffline(frame.landmarks, targetPose, options));
+
+  let holdMs = 0;
+  let runStart: number | null = null;
+  results.forEach((result, i) => {
+    if (!result.matched) {
+      runStart = null;
+      return;
+    }
+    if (runStart === null) runStart = frames[i].t;
+    holdMs = Math.max(holdMs, frames[i].t - runStart);
+  });
+
+  const score = Math.round(median(results.map(result => result.score)));
+  const stability = Math.round(measureStability(frames, options) * 100) / 100;
+  const threshold = options.threshold ?? targetPose.threshold ?? MATCH_THRESHOLD;
+  const shapeMatched = score >= threshold;
+  const held = shapeMatched && holdMs >= minHoldMs;
+  const balance = targetPose.definition.standOn ? Math.round(measureBalance(frames, options) * 100) / 100 : undefined;
+  const balanced = balance === undefined || balance >= MIN_BALANCE;
+  const matched = held && balanced;
+
+  let feedback = matched ? targetPose.feedback.match : targetPose.feedback.miss;
+  let feedbackCode: FeedbackCode = matched ? 'match' : 'miss';
+  if (shapeMatched && !held) {
+    feedback = "Almost! Hold the pose steady until the wall arrives.";
+    feedbackCode = 'unsteady';
+  } else if (held && !balanced) {
+    feedback = "Almost! Keep your balance on the standing leg.";
+    feedbackCode = 'off-balance';
+  }
+
+  // Corrections describe the last frame, the one the player sees frozen on the result screen.
+  const deviations = results[results.length - 1].deviations;
+
+  return { matched, score, feedback, feedbackCode, holdMs: Math.round(holdMs), stability, balance, deviations };
+}
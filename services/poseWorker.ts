@@ -0,0 +1,58 @@
+/**
+ * Pose inference off the main thread. Receives camera frames as transferred
+ * ImageBitmaps and posts back the landmarks of the first detected person.
+ */
+import { FilesetResolver, PoseLandmarker } from '@mediapipe/tasks-vision';
+import type { PoseWorkerRequest, PoseWorkerResponse } from './poseTracker';
+
+let landmarker: PoseLandmarker | null = null;
+// detectForVideo rejects timestamps that don't strictly increase
+let lastTimestamp = -1;
+
+const post = (message: PoseWorkerResponse) => self.postMessage(message);
+
+async function createLandmarker(wasmPath: string, modelPath: string): Promise<{ landmarker: PoseLandmarker; delegate: 'GPU' | 'CPU' }> {
+  const fileset = await FilesetResolver.forVisionTasks(wasmPath, true);
+  const create = (delegate: 'GPU' | 'CPU') => PoseLandmarker.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: modelPath, delegate },
+    // Workers have no DOM, so the GPU delegate renders into an OffscreenCanvas
+    canvas: new OffscreenCanvas(1, 1),
+    runningMode: 'VIDEO',
+    numPoses: 1,
+    minPoseDetectionConfidence: 0.5,
+    minPosePresenceConfidence: 0.5,
+    minTrackingConfidence: 0.5
+  });
+  try {
+    return { landmarker: await create('GPU'), delegate: 'GPU' };
+  } catch (err) {
+    console.error("Pose GPU Delegate Error:", err);
+    return { landmarker: await create('CPU'), delegate: 'CPU' };
+  }
+}
+
+self.onmessage = async (event: MessageEvent<PoseWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    try {
+      const created = await createLandmarker(message.wasmPath, message.modelPath);
+      landmarker = created.landmarker;
+      post({ type: 'ready', delegate: created.delegate });
+    } catch (err: any) {
+      post({ type: 'error', message: err?.message ?? String(err) });
+    }
+    return;
+  }
+
+  const { frame, t } = message;
+  try {
+    if (!landmarker) throw new Error("Pose landmarker is not ready.");
+    lastTimestamp = Math.max(lastTimestamp + 1, Math.round(t));
+    const result = landmarker.detectForVideo(frame, lastTimestamp);
+    post({ type: 'result', t, landmarks: result.landmarks[0] ?? null });
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message ?? String(err) });
+  } finally {
+    frame.close();
+  }
+};
@@ -0,0 +1,181 @@
+import { DifficultyId } from "./progression";
+
+const DB_NAME = 'neural-pulse';
+const DB_VERSION = 1;
+const PROFILES = 'profiles';
+const SESSIONS = 'sessions';
+const ACTIVE_PROFILE_KEY = 'neural-pulse.active-profile';
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface WallRecord {
+  poseId: string;
+  poseName: string;
+  matched: boolean;
+  score: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  profileId: string;
+  playedAt: number;
+  score: number;
+  difficulty: DifficultyId;
+  level: number;
+  walls: WallRecord[];
+  // Seed the run was dealt from, and the date for daily challenge runs.
+  seed?: number;
+  daily?: string;
+}
+
+export interface HighScore {
+  profileName: string;
+  score: number;
+  playedAt: number;
+  difficulty: DifficultyId;
+}
+
+export interface PoseStats {
+  poseId: string;
+  poseName: string;
+  attempts: number;
+  successRate: number;
+  averageScore: number;
+  // Average score of the more recent half of attempts minus the older half.
+  improvement: number;
+}
+
+export interface ProfileStats {
+  sessions: number;
+  bestScore: number;
+  totalWalls: number;
+  poses: PoseStats[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROFILES)) {
+          db.createObjectStore(PROFILES, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          const sessions = db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          sessions.createIndex('profileId', 'profileId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export async function listProfiles(): Promise<Profile[]> {
+  const profiles = await promisify((await store(PROFILES, 'readonly')).getAll() as IDBRequest<Profile[]>);
+  return profiles.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function createProfile(name: string): Promise<Profile> {
+  const profile: Profile = { id: newId(), name, createdAt: Date.now() };
+  await promisify((await store(PROFILES, 'readwrite')).add(profile));
+  return profile;
+}
+
+export async function saveSession(session: Omit<SessionRecord, 'id'>): Promise<SessionRecord> {
+  const record: SessionRecord = { ...session, id: newId() };
+  await promisify((await store(SESSIONS, 'readwrite')).add(record));
+  return record;
+}
+
+export async function listSessions(profileId: string): Promise<SessionRecord[]> {
+  const index = (await store(SESSIONS, 'readonly')).index('profileId');
+  const sessions = await promisify(index.getAll(profileId) as IDBRequest<SessionRecord[]>);
+  return sessions.sort((a, b) => a.playedAt - b.playedAt);
+}
+
+export async function listHighScores(limit = 5): Promise<HighScore[]> {
+  const [profiles, sessions] = await Promise.all([
+    listProfiles(),
+    promisify((await store(SESSIONS, 'readonly')).getAll() as IDBRequest<SessionRecord[]>)
+  ]);
+  const names = new Map(profiles.map(profile => [profile.id, profile.name]));
+  return sessions
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(session => ({
+      profileName: names.get(session.profileId) ?? '???',
+      score: session.score,
+      playedAt: session.playedAt,
+      difficulty: session.difficulty
+    }));
+}
+
+export function getActiveProfileId(): string | null {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY);
+}
+
+export function setActiveProfileId(id: string): void {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+/**
+ * Aggregates a profile's sessions (oldest first) into per-pose statistics.
+ */
+export function computeProfileStats(sessions: SessionRecord[]): ProfileStats {
+  const byPose = new Map<string, WallRecord[]>();
+  for (const session of sessions) {
+    for (const wall of session.walls) {
+      const walls = byPose.get(wall.poseId) ?? [];
+      walls.push(wall);
+      byPose.set(wall.poseId, walls);
+    }
+  }
+
+  const poses: PoseStats[] = [...byPose.entries()].map(([poseId, walls]) => {
+    const scores = walls.map(wall => wall.score);
+    const half = Math.floor(scores.length / 2);
+    return {
+      poseId,
+      poseName: walls[walls.length - 1].poseName,
+      attempts: walls.length,
+      successRate: walls.filter(wall => wall.matched).length / walls.length,
+      averageScore: Math.round(average(scores)),
+      improvement: half > 0 ? Math.round(average(scores.slice(-half)) - average(scores.slice(0, half))) : 0
+    };
+  });
+
+  return {
+    sessions: sessions.length,
+    bestScore: sessions.reduce((best, session) => Math.max(best, session.score), 0),
+    totalWalls: poses.reduce((sum, pose) => sum + pose.attempts, 0),
+    poses: poses.sort((a, b) => a.successRate - b.successRate)
+  };
+}
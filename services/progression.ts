@@ -0,0 +1,133 @@
+import { Pose, MatchResult } from "../types";
+import { GAME_DURATION, MATCH_THRESHOLD } from "../constants";
+
+export type DifficultyId = 'easy' | 'normal' | 'hard';
+
+export interface DifficultyPreset {
+  id: DifficultyId;
+  // Wall time at level 1, how much each level takes off, and the floor.
+  baseWallMs: number;
+  wallStepMs: number;
+  minWallMs: number;
+  // Points added to every pose's match threshold per level, and the cap.
+  thresholdStep: number;
+  maxThresholdBonus: number;
+  wallsPerLevel: number;
+  // Level at which pose tier 1, 2 and 3 join the pool.
+  tierUnlockLevels: [number, number, number];
+  startingLives: number;
+  maxLives: number;
+  // Consecutive matches that earn a life back.
+  bonusLifeStreak: number;
+}
+
+export interface LevelSettings {
+  level: number;
+  wallMs: number;
+  thresholdBonus: number;
+  maxTier: number;
+}
+
+export interface WallOutcome {
+  points: number;
+  streak: number;
+  multiplier: number;
+  bonusLife: boolean;
+  onBeat: boolean;
+}
+
+export const DIFFICULTIES: Record<DifficultyId, DifficultyPreset> = {
+  easy: {
+    id: 'easy',
+    baseWallMs: 8000,
+    wallStepMs: 400,
+    minWallMs: 4500,
+    thresholdStep: 1,
+    maxThresholdBonus: 8,
+    wallsPerLevel: 5,
+    tierUnlockLevels: [1, 4, 7],
+    startingLives: 5,
+    maxLives: 5,
+    bonusLifeStreak: 4
+  },
+  normal: {
+    id: 'normal',
+    baseWallMs: GAME_DURATION,
+    wallStepMs: 400,
+    minWallMs: 3000,
+    thresholdStep: 2,
+    maxThresholdBonus: 16,
+    wallsPerLevel: 4,
+    tierUnlockLevels: [1, 3, 5],
+    startingLives: 3,
+    maxLives: 4,
+    bonusLifeStreak: 5
+  },
+  hard: {
+    id: 'hard',
+    baseWallMs: 4500,
+    wallStepMs: 300,
+    minWallMs: 2000,
+    thresholdStep: 3,
+    maxThresholdBonus: 24,
+    wallsPerLevel: 3,
+    tierUnlockLevels: [1, 1, 3],
+    startingLives: 3,
+    maxLives: 3,
+    bonusLifeStreak: 7
+  }
+};
+
+// Each consecutive match adds this much to the multiplier, up to the cap.
+const COMBO_STEP = 0.25;
+const MAX_MULTIPLIER = 3;
+// Extra share of a wall's points for striking the pose on a music beat.
+export const ON_BEAT_BONUS = 0.25;
+
+export function levelForWalls(preset: DifficultyPreset, wallsCleared: number): number {
+  return 1 + Math.floor(wallsCleared / preset.wallsPerLevel);
+}
+
+export function levelSettings(preset: DifficultyPreset, level: number): LevelSettings {
+  return {
+    level,
+    wallMs: Math.max(preset.minWallMs, preset.baseWallMs - (level - 1) * preset.wallStepMs),
+    thresholdBonus: Math.min(preset.maxThresholdBonus, (level - 1) * preset.thresholdStep),
+    maxTier: preset.tierUnlockLevels.filter(unlock => level >= unlock).length
+  };
+}
+
+export function thresholdFor(pose: Pose, settings: LevelSettings): number {
+  return Math.min(95, (pose.threshold ?? MATCH_THRESHOLD) + settings.thresholdBonus);
+}
+
+/**
+ * Poses available at this level. Poses without a tier count as tier 1.
+ */
+export function posePool(poses: Pose[], settings: LevelSettings): Pose[] {
+  const pool = poses.filter(pose => (pose.tier ?? 1) <= settings.maxTier);
+  return pool.length > 0 ? pool : poses;
+}
+
+export function comboMultiplier(streak: number): number {
+  return Math.min(MAX_MULTIPLIER, 1 + Math.max(0, streak - 1) * COMBO_STEP);
+}
+
+/**
+ * Points and streak after a judged wall. `streak` is the run of matches before
+ * it, and `onBeat` whether the pose was struck on a beat of the music.
+ */
+export function scoreWall(preset: DifficultyPreset, streak: number, result: MatchResult, onBeat = false): WallOutcome {
+  if (!result.matched) {
+    return { points: 0, streak: 0, multiplier: 1, bonusLife: false, onBeat: false };
+  }
+  const nextStreak = streak + 1;
+  const multiplier = comboMultiplier(nextStreak);
+  return {
+    points: Math.round(result.score * multiplier * (onBeat ? 1 + ON_BEAT_BONUS : 1)),
+    streak: nextStreak,
+    multiplier,
+    bonusLife: nextStreak % preset.bonusLifeStreak === 0,
+    onBeat
+  };
+}
@@ -0,0 +1,189 @@
+import { Pose, PoseFrame, MatchResult, Landmark, ViewSettings, BodyCalibration } from "../types";
+import { POSES } from "../constants";
+import { evaluatePoseWindow } from "./poseWindow";
+import { DifficultyId } from "./progression";
+import { RunRules } from "./gameEngine";
+import { applyHandedness, DEFAULT_VIEW_SETTINGS } from "./handedness";
+import { AppError } from "./errors";
+import { parsePose } from "./poseLibrary";
+
+export const RECORDING_FORMAT = 'neural-pulse-session';
+export const RECORDING_VERSION = 1;
+
+// Event and frame times are milliseconds since the recording started.
+export type SessionEvent =
+  | { t: number; type: 'round-start'; pose: Pose; durationMs: number; threshold?: number }
+  | { t: number; type: 'judge'; poseId: string; result: MatchResult; onBeat?: boolean }
+  | { t: number; type: 'game-over'; score: number };
+
+export interface SessionRecording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  startedAt: string;
+  aspectRatio: number;
+  difficulty?: DifficultyId;
+  // Side convention the session was played with; round-start poses are stored before it applies.
+  view?: ViewSettings;
+  // Player's body measurements from calibration, so replays normalize the same way.
+  calibration?: BodyCalibration;
+  // Seed the run's walls were dealt from.
+  seed?: number;
+  // Game config rules the run was played under; the dealt poses are in the round-start events.
+  rules?: Omit<RunRules, 'playlist'>;
+  frames: PoseFrame[];
+  events: SessionEvent[];
+}
+
+export interface RescoredRound {
+  pose: Pose;
+  recorded: MatchResult;
+  rescored: MatchResult;
+}
+
+export function createRecording(aspectRatio: number, difficulty: DifficultyId, view: ViewSettings, calibration?: BodyCalibration, seed?: number, rules?: Omit<RunRules, 'playlist'>): SessionRecording {
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    startedAt: new Date().toISOString(),
+    aspectRatio,
+    difficulty,
+    view,
+    calibration,
+    seed,
+    rules,
+    frames: [],
+    events: []
+  };
+}
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+function compactLandmark(lm: Landmark): Landmark {
+  const compact: Landmark = { x: round4(lm.x), y: round4(lm.y) };
+  if (lm.z !== undefined) compact.z = round4(lm.z);
+  if (lm.visibility !== undefined) compact.visibility = round4(lm.visibility);
+  return compact;
+}
+
+export function recordFrame(recording: SessionRecording, frame: PoseFrame): void {
+  recording.frames.push({ t: Math.round(frame.t), landmarks: frame.landmarks.map(compactLandmark) });
+}
+
+export function recordEvent(recording: SessionRecording, event: SessionEvent): void {
+  recording.events.push({ ...event, t: Math.round(event.t) });
+}
+
+export function serializeRecording(recording: SessionRecording): string {
+  return JSON.stringify(recording);
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isLandmark = (lm: any) => isNumber(lm?.x) && isNumber(lm?.y);
+
+/**
+ * Parses a recording file, rejecting anything that isn't a session recording
+ * this version of the game can replay.
+ */
+export function parseRecording(json: string): SessionRecording {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new AppError({ code: 'not-json', file: 'recording' }, "Recording is not valid JSON.");
+  }
+  if (data?.format !== RECORDING_FORMAT) {
+    throw new AppError({ code: 'wrong-format', file: 'recording' }, "File is not a Neural Pulse session recording.");
+  }
+  if (typeof data.version !== 'number' || data.version > RECORDING_VERSION) {
+    throw new AppError({ code: 'unsupported-version', file: 'recording', version: String(data.version) }, `Unsupported recording version: ${data.version}.`);
+  }
+  if (!Array.isArray(data.frames) || !Array.isArray(data.events)) {
+    throw new AppError({ code: 'empty-file', file: 'recording' }, "Recording has no frames or events.");
+  }
+  if (!isNumber(data.aspectRatio) || data.aspectRatio <= 0) {
+    throw new AppError({ code: 'wrong-format', file: 'recording' }, "Recording has no aspect ratio.");
+  }
+  // Playback looks frames up by time, so they have to be in order
+  (data.frames as any[]).forEach((frame, i) => {
+    const ordered = i === 0 || frame?.t >= data.frames[i - 1].t;
+    if (!isNumber(frame?.t) || !ordered || !Array.isArray(frame.landmarks) || !frame.landmarks.every(isLandmark)) {
+      throw new AppError({ code: 'invalid-frame', item: i + 1 }, `Recording frame ${i + 1} is malformed.`);
+    }
+  });
+  let rounds = 0;
+  const events = (data.events as any[]).map((event, i): SessionEvent => {
+    const malformed = () => new AppError({ code: 'invalid-event', item: i + 1 }, `Recording event ${i + 1} is malformed.`);
+    if (!isNumber(event?.t)) throw malformed();
+    if (event.type === 'round-start') {
+      if (!isNumber(event.durationMs) || (event.threshold !== undefined && !isNumber(event.threshold))) throw malformed();
+      // Custom poses are replayed from this snapshot, so it gets the same checks as an imported pose
+      return { ...event, pose: parsePose(event.pose, rounds++) };
+    }
+    if (event.type === 'judge') {
+      if (typeof event.poseId !== 'string' || typeof event.result?.matched !== 'boolean' || !isNumber(event.result.score)) throw malformed();
+      return event;
+    }
+    if (event.type === 'game-over') {
+      if (!isNumber(event.score)) throw malformed();
+      return event;
+    }
+    throw malformed();
+  });
+  return { ...data, events } as SessionRecording;
+}
+
+/**
+ * Index of the last frame at or before `t`, or -1 when playback hasn't reached one yet.
+ */
+export function frameIndexAt(recording: SessionRecording, t: number): number {
+  let lo = 0;
+  let hi = recording.frames.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (recording.frames[mid].t <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Current definition of the pose, so old sessions are judged by today's
+ * rules, with the session's side convention applied. Custom poses fall back
+ * to the snapshot taken during the session.
+ */
+export function resolvePose(recording: SessionRecording, pose: Pose): Pose {
+  return applyHandedness(POSES.find(p => p.id === pose.id) ?? pose, recording.view ?? DEFAULT_VIEW_SETTINGS);
+}
+
+/**
+ * Judges a recorded wall from the recorded frames alone, so the same
+ * recording always produces the same result.
+ */
+export function rescoreJudgement(recording: SessionRecording, pose: Pose, t: number, threshold?: number): MatchResult {
+  return evaluatePoseWindow(recording.frames, resolvePose(recording, pose), t, {
+    aspectRatio: recording.aspectRatio,
+    calibration: recording.calibration,
+    threshold
+  });
+}
+
+export function rescoreRecording(recording: SessionRecording): RescoredRound[] {
+  const rounds: RescoredRound[] = [];
+  let current: Pose | null = null;
+  let threshold: number | undefined;
+  for (const event of recording.events) {
+    if (event.type === 'round-start') {
+      current = event.pose;
+      threshold = event.threshold;
+    }
+    if (event.type === 'judge' && current) {
+      rounds.push({ pose: current, recorded: event.result, rescored: rescoreJudgement(recording, current, event.t, threshold) });
+    }
+  }
+  return rounds;
+}
@@ -0,0 +1,139 @@
+import { Pose, Landmark, LimbName, Skeleton, PoseDefinition } from "../types";
+import {
+  LANDMARK_INDEX,
+  LIMB_JOINTS,
+  BodyAnchor,
+  bodyAnchor,
+  fromBodyPoint,
+  toBodySkeleton,
+  skeletonLimbAngle,
+  angleDifference,
+  buildReferenceSkeleton,
+  mirrorDefinition,
+  EvaluateOptions
+} from "./poseService";
+
+export interface SilhouetteFit {
+  // Where the player stands, so the hole can be drawn at their size.
+  anchor: BodyAnchor;
+  // The hole's skeleton; for eitherSide poses, the side the player is closer to.
+  reference: Skeleton;
+  // Whether each limb sits inside its part of the hole. Limbs the pose leaves free always fit.
+  limbs: Record<LimbName, boolean>;
+}
+
+const LIMBS = Object.keys(LIMB_JOINTS) as LimbName[];
+
+const referenceOf = (definition: PoseDefinition) => definition.reference ?? buildReferenceSkeleton(definition);
+
+function fitLimbs(landmarks: Landmark[], definition: PoseDefinition, options: EvaluateOptions): Record<LimbName, boolean> {
+  const skeleton = toBodySkeleton(landmarks, options.aspectRatio, options.calibration);
+  const limbs = {} as Record<LimbName, boolean>;
+  for (const limb of LIMBS) {
+    const rule = definition.limbs.find(r => r.limb === limb);
+    const angle = skeleton ? skeletonLimbAngle(skeleton, limb) : null;
+    limbs[limb] = !rule || (angle !== null && angleDifference(angle, rule.angle) <= rule.tolerance);
+  }
+  return limbs;
+}
+
+/**
+ * Lines the pose's silhouette up with the player's body and checks each limb against it.
+ */
+export function fitSilhouette(landmarks: Landmark[], pose: Pose, options: EvaluateOptions = {}): SilhouetteFit | null {
+  const anchor = bodyAnchor(landmarks, options.aspectRatio, options.calibration);
+  if (!anchor) return null;
+
+  let definition = pose.definition;
+  let limbs = fitLimbs(landmarks, definition, options);
+  if (pose.definition.eitherSide) {
+    const mirrored = mirrorDefinition(pose.definition);
+    const mirroredLimbs = fitLimbs(landmarks, mirrored, options);
+    const count = (fits: Record<LimbName, boolean>) => LIMBS.filter(limb => fits[limb]).length;
+    if (count(mirroredLimbs) > count(limbs)) {
+      definition = mirrored;
+      limbs = mirroredLimbs;
+    }
+  }
+
+  return { anchor, reference: referenceOf(definition), limbs };
+}
+
+// Hole proportions in torso lengths.
+const LIMB_WIDTH = 0.34;
+const HEAD_RADIUS = 0.32;
+const FIT_COLOR = '#22c55e';
+const MISS_COLOR = '#f43f5e';
+
+let wallLayer: HTMLCanvasElement | null = null;
+
+/**
+ * Paints the wall over the whole canvas with the pose cut out of it. Expects
+ * the canvas context to already carry the mirrored view transform.
+ */
+export function drawSilhouetteHole(ctx: CanvasRenderingContext2D, fit: SilhouetteFit, opacity: number): void {
+  const { width, height } = ctx.canvas;
+  if (!wallLayer) wallLayer = document.createElement('canvas');
+  if (wallLayer.width !== width || wallLayer.height !== height) {
+    wallLayer.width = width;
+    wallLayer.height = height;
+  }
+  const layer = wallLayer.getContext('2d');
+  if (!layer) return;
+
+  const unit = fit.anchor.torso * height;
+  const point = (name: keyof Skeleton) => {
+    const p = fromBodyPoint(fit.anchor, fit.reference[name]);
+    return { x: p.x * width, y: p.y * height };
+  };
+
+  layer.globalCompositeOperation = 'source-over';
+  layer.clearRect(0, 0, width, height);
+  layer.fillStyle = `rgba(250, 204, 21, ${opacity})`;
+  layer.fillRect(0, 0, width, height);
+
+  layer.globalCompositeOperation = 'destination-out';
+  layer.lineCap = 'round';
+  layer.lineJoin = 'round';
+  layer.lineWidth = unit * LIMB_WIDTH;
+  for (const [from, to] of Object.values(LIMB_JOINTS)) {
+    const a = point(from);
+    const b = point(to);
+    layer.beginPath();
+    layer.moveTo(a.x, a.y);
+    layer.lineTo(b.x, b.y);
+    layer.stroke();
+  }
+  const torso = [point('leftShoulder'), point('rightShoulder'), point('rightHip'), point('leftHip')];
+  layer.beginPath();
+  torso.forEach((p, i) => (i === 0 ? layer.moveTo(p.x, p.y) : layer.lineTo(p.x, p.y)));
+  layer.closePath();
+  layer.fill();
+  layer.stroke();
+  const head = point('nose');
+  layer.beginPath();
+  layer.arc(head.x, head.y, unit * HEAD_RADIUS, 0, Math.PI * 2);
+  layer.fill();
+
+  ctx.drawImage(wallLayer, 0, 0);
+}
+
+/**
+ * Redraws the player's limbs green where they fit the hole and red where they don't.
+ */
+export function drawLimbFit(ctx: CanvasRenderingContext2D, landmarks: Landmark[], fit: SilhouetteFit): void {
+  const { width, height } = ctx.canvas;
+  ctx.lineCap = 'round';
+  ctx.lineWidth = 6;
+  for (const limb of LIMBS) {
+    const [from, to] = LIMB_JOINTS[limb];
+    const a = landmarks[LANDMARK_INDEX[from]];
+    const b = landmarks[LANDMARK_INDEX[to]];
+    if (!a || !b) continue;
+    ctx.strokeStyle = fit.limbs[limb] ? FIT_COLOR : MISS_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(a.x * width, a.y * height);
+    ctx.lineTo(b.x * width, b.y * height);
+    ctx.stroke();
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Game sounds synthesized with Web Audio, plus spoken announcements through
+ * the browser's speech synthesis. Nothing is loaded from files, so sound works
+ * offline too.
+ */
+
+const STORAGE_KEY = 'neural-pulse.audio';
+
+export type SoundCue = 'tick' | 'last-tick' | 'match' | 'miss' | 'game-over';
+
+export interface AudioSettings {
+  // 0 to 1, applied to music, effects and voice alike.
+  volume: number;
+  muted: boolean;
+  // Read each pose's name aloud as its wall appears.
+  announcePoses: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { volume: 0.8, muted: false, announcePoses: true };
+
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AUDIO_SETTINGS;
+  } catch (e) {
+    console.error("Audio Settings Load Error:", e);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function outputVolume(settings: AudioSettings): number {
+  return settings.muted ? 0 : Math.min(1, Math.max(0, settings.volume));
+}
+
+interface Tone {
+  frequency: number;
+  // Slides to this frequency over the tone's duration, if set.
+  endFrequency?: number;
+  // Seconds after the cue starts.
+  at: number;
+  duration: number;
+  type: OscillatorType;
+  gain: number;
+}
+
+const CUES: Record<SoundCue, Tone[]> = {
+  'tick': [{ frequency: 880, at: 0, duration: 0.08, type: 'square', gain: 0.15 }],
+  'last-tick': [{ frequency: 1320, at: 0, duration: 0.18, type: 'square', gain: 0.2 }],
+  'match': [
+    { frequency: 523.25, at: 0, duration: 0.12, type: 'triangle', gain: 0.35 },
+    { frequency: 659.25, at: 0.1, duration: 0.12, type: 'triangle', gain: 0.35 },
+    { frequency: 783.99, at: 0.2, duration: 0.25, type: 'triangle', gain: 0.35 }
+  ],
+  'miss': [
+    { frequency: 220, endFrequency: 110, at: 0, duration: 0.4, type: 'sawtooth', gain: 0.2 }
+  ],
+  'game-over': [
+    { frequency: 392, endFrequency: 370, at: 0, duration: 0.3, type: 'sawtooth', gain: 0.2 },
+    { frequency: 330, endFrequency: 311, at: 0.3, duration: 0.3, type: 'sawtooth', gain: 0.2 },
+    { frequency: 262, endFrequency: 131, at: 0.6, duration: 0.9, type: 'sawtooth', gain: 0.22 }
+  ]
+};
+
+/**
+ * Countdown beep due when the wall's time left goes from `previousMs` to
+ * `timeLeftMs`: a tick at three and two seconds, a higher one at the last.
+ */
+export function countdownCue(previousMs: number, timeLeftMs: number): SoundCue | null {
+  for (const [mark, cue] of [[1000, 'last-tick'], [2000, 'tick'], [3000, 'tick']] as const) {
+    if (previousMs > mark && timeLeftMs <= mark) return cue;
+  }
+  return null;
+}
+
+export interface SoundEngine {
+  // Music and effects play through this node, so one volume covers both.
+  output: GainNode;
+  setSettings: (settings: AudioSettings) => void;
+  play: (cue: SoundCue) => void;
+  // `lang` is a BCP 47 tag such as "ru-RU".
+  announce: (text: string, lang: string) => void;
+}
+
+function pickVoice(lang: string): SpeechSynthesisVoice | null {
+  const voices = speechSynthesis.getVoices();
+  const primary = lang.split('-')[0];
+  return voices.find(voice => voice.lang === lang)
+    ?? voices.find(voice => voice.lang.split('-')[0] === primary)
+    ?? null;
+}
+
+export function createSoundEngine(ctx: AudioContext, initial: AudioSettings): SoundEngine {
+  const output = ctx.createGain();
+  output.connect(ctx.destination);
+  let settings = initial;
+  output.gain.value = outputVolume(settings);
+
+  return {
+    output,
+    setSettings: next => {
+      settings = next;
+      output.gain.setTargetAtTime(outputVolume(settings), ctx.currentTime, 0.02);
+    },
+    play: cue => {
+      if (outputVolume(settings) === 0) return;
+      if (ctx.state === 'suspended') ctx.resume();
+      const start = ctx.currentTime;
+      for (const tone of CUES[cue]) {
+        const oscillator = ctx.createOscillator();
+        const envelope = ctx.createGain();
+        const t0 = start + tone.at;
+        const t1 = t0 + tone.duration;
+        oscillator.type = tone.type;
+        oscillator.frequency.setValueAtTime(tone.frequency, t0);
+        if (tone.endFrequency) oscillator.frequency.exponentialRampToValueAtTime(tone.endFrequency, t1);
+        // Short attack and an exponential tail keep the tones from clicking
+        envelope.gain.setValueAtTime(0.0001, t0);
+        envelope.gain.exponentialRampToValueAtTime(tone.gain, t0 + 0.01);
+        envelope.gain.exponentialRampToValueAtTime(0.0001, t1);
+        oscillator.connect(envelope).connect(output);
+        oscillator.start(t0);
+        oscillator.stop(t1 + 0.05);
+      }
+    },
+    announce: (text, lang) => {
+      const volume = outputVolume(settings);
+      if (!settings.announcePoses || volume === 0 || typeof speechSynthesis === 'undefined') return;
+      // A new wall replaces whatever was still being said about the last one
+      speechSynthesis.cancel();
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.voice = pickVoice(lang);
+      utterance.volume = volume;
+      utterance.rate = 1.1;
+      speechSynthesis.speak(utterance);
+    }
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Where the pose pipeline's frames come from: a camera picked by device and
+ * resolution, or a local video file played through the same <video> element.
+ */
+import { AppError } from "./errors";
+
+const STORAGE_KEY = 'neural-pulse.camera';
+
+export interface CameraSettings {
+  // null lets the browser pick its default camera.
+  deviceId: string | null;
+  width: number;
+  height: number;
+}
+
+export type VideoSourceSpec =
+  | ({ kind: 'camera' } & CameraSettings)
+  | { kind: 'file'; file: File };
+
+export interface CameraDevice {
+  deviceId: string;
+  // Empty until the page has camera permission.
+  label: string;
+}
+
+export interface VideoSourceHandle {
+  stop: () => void;
+}
+
+export interface VideoSourceEvents {
+  // The camera was unplugged or revoked, or the video file played to its end.
+  onEnded: () => void;
+}
+
+export const DEFAULT_CAMERA: CameraSettings = { deviceId: null, width: 640, height: 480 };
+
+export function loadCameraSettings(): CameraSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_CAMERA, ...JSON.parse(stored) } : DEFAULT_CAMERA;
+  } catch (e) {
+    console.error("Camera Settings Load Error:", e);
+    return DEFAULT_CAMERA;
+  }
+}
+
+export function saveCameraSettings(settings: CameraSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput')
+    .map(device => ({ deviceId: device.deviceId, label: device.label }));
+}
+
+/**
+ * The camera to open given the devices present now. A remembered camera that
+ * has been unplugged falls back to the browser's default. Before permission
+ * is granted browsers hide device ids, so the choice is kept as is.
+ */
+export function resolveCamera(settings: CameraSettings, cameras: CameraDevice[]): CameraSettings {
+  if (!settings.deviceId || cameras.every(camera => !camera.deviceId)) return settings;
+  return cameras.some(camera => camera.deviceId === settings.deviceId) ? settings : { ...settings, deviceId: null };
+}
+
+/**
+ * Resolves once the element has a frame to show, so callers can mark the input
+ * ready. Rejects when `signal` aborts, e.g. because a newer source replaced
+ * this one before it loaded; every open settles either way.
+ */
+function whenLoaded(video: HTMLVideoElement, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('loadedmetadata', onLoaded);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onLoaded = () => {
+      cleanup();
+      video.play().then(resolve, reject);
+    };
+    const onError = () => {
+      cleanup();
+      reject(new AppError({ code: 'video-unloadable' }, "Video could not be loaded."));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal!.reason);
+    };
+    if (signal?.aborted) return reject(signal.reason);
+    video.addEventListener('loadedmetadata', onLoaded);
+    video.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+// getUserMedia's DOMException names, told apart so the player knows what to fix.
+function cameraError(err: any): AppError {
+  switch (err?.name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new AppError({ code: 'camera-denied' }, "Camera access was denied.");
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new AppError({ code: 'camera-not-found' }, "No camera was found.");
+    case 'NotReadableError':
+    case 'AbortError':
+      return new AppError({ code: 'camera-busy' }, "The camera is in use by another app.");
+    default:
+      return new AppError({ code: 'camera-unavailable' }, err?.message || "Could not access camera.");
+  }
+}
+
+async function openCamera(video: HTMLVideoElement, settings: CameraSettings, events: VideoSourceEvents, signal?: AbortSignal): Promise<VideoSourceHandle> {
+  signal?.throwIfAborted();
+  let stream: MediaStream;
+  try {
+    if (!navigator.mediaDevices?.getUserMedia) throw new Error("Camera API is not available.");
+    stream = await navigator.mediaDevices.getUserMedia({
+      video: {
+        deviceId: settings.deviceId ? { exact: settings.deviceId } : undefined,
+        width: { ideal: settings.width },
+        height: { ideal: settings.height },
+        frameRate: { ideal: 30, max: 30 }
+      },
+      audio: false
+    });
+  } catch (err) {
+    throw cameraError(err);
+  }
+  // Superseded while the permission prompt was up; the stream is nobody's now
+  if (signal?.aborted) {
+    stream.getTracks().forEach(t => t.stop());
+    throw signal.reason;
+  }
+  const [track] = stream.getVideoTracks();
+  let stopped = false;
+  // Fired when the device goes away, not when we stop the track ourselves
+  track.onended = () => {
+    if (!stopped) events.onEnded();
+  };
+
+  video.removeAttribute('src');
+  video.loop = false;
+  video.srcObject = stream;
+  try {
+    await whenLoaded(video, signal);
+  } catch (err) {
+    stopped = true;
+    stream.getTracks().forEach(t => t.stop());
+    if (video.srcObject === stream) video.srcObject = null;
+    throw err;
+  }
+
+  return {
+    stop: () => {
+      stopped = true;
+      stream.getTracks().forEach(t => t.stop());
+      if (video.srcObject === stream) video.srcObject = null;
+    }
+  };
+}
+
+async function openVideoFile(video: HTMLVideoElement, file: File, events: VideoSourceEvents, signal?: AbortSignal): Promise<VideoSourceHandle> {
+  const url = URL.createObjectURL(file);
+  video.srcObject = null;
+  video.loop = false;
+  video.src = url;
+  video.onended = () => events.onEnded();
+  try {
+    await whenLoaded(video, signal);
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    if (signal?.aborted) throw err;
+    throw new AppError({ code: 'unplayable-video', name: file.name }, `"${file.name}" is not a playable video.`);
+  }
+
+  return {
+    stop: () => {
+      video.onended = null;
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  };
+}
+
+/**
+ * Points the video element at the source and starts playback. Aborting
+ * `signal` before it resolves rejects with the abort reason and releases
+ * whatever was opened so far.
+ */
+export function openVideoSource(video: HTMLVideoElement, spec: VideoSourceSpec, events: VideoSourceEvents, signal?: AbortSignal): Promise<VideoSourceHandle> {
+  return spec.kind === 'camera' ? openCamera(video, spec, events, signal) : openVideoFile(video, spec.file, events, signal);
+}
+
+/**
+ * Plays a video file from the top, so a recorded performance lines up with
+ * the start of a run or routine. Cameras are left alone.
+ */
+export function rewindVideoFile(video: HTMLVideoElement, spec: VideoSourceSpec): void {
+  if (spec.kind !== 'file') return;
+  video.currentTime = 0;
+  video.play().catch(err => console.error("Video Playback Error:", err));
+}
@@ -4,7 +4,100 @@ export enum GameState {
   PLAYING = 'PLAYING',
   JUDGING = 'JUDGING',
   RESULT = 'RESULT',
-  GAMEOVER = 'GAMEOVER'
+  GAMEOVER = 'GAMEOVER',
+  STUDIO = 'STUDIO',
+  ROUTINE = 'ROUTINE',
+  ROUTINE_SUMMARY = 'ROUTINE_SUMMARY',
+  WORKOUT = 'WORKOUT',
+  WORKOUT_SUMMARY = 'WORKOUT_SUMMARY',
+  CALIBRATING = 'CALIBRATING'
+}
+
+// Normalized MediaPipe landmark: x/y in [0, 1] of the frame, y growing downwards.
+export interface Landmark {
+  x: number;
+  y: number;
+  z?: number;
+  visibility?: number;
+}
+
+export type LandmarkName =
+  | 'nose'
+  | 'leftShoulder' | 'rightShoulder'
+  | 'leftElbow' | 'rightElbow'
+  | 'leftWrist' | 'rightWrist'
+  | 'leftHip' | 'rightHip'
+  | 'leftKnee' | 'rightKnee'
+  | 'leftAnkle' | 'rightAnkle';
+
+// A point in the player's body frame: origin between the hips, x towards the
+// player's left, y up, measured in torso lengths.
+export interface BodyPoint {
+  x: number;
+  y: number;
+}
+
+export type Skeleton = Record<LandmarkName, BodyPoint>;
+
+export type LimbName =
+  | 'leftUpperArm' | 'leftForearm'
+  | 'rightUpperArm' | 'rightForearm'
+  | 'leftThigh' | 'leftShin'
+  | 'rightThigh' | 'rightShin';
+
+/**
+ * Direction of one limb segment in the player's body frame, in degrees:
+ * 0 points away from the body's midline, 90 straight up, -90 straight down
+ * and 180 across the body. Left/right are anatomical.
+ */
+export interface LimbAngleRule {
+  limb: LimbName;
+  angle: number;
+  tolerance: number;
+  weight?: number;
+}
+
+/**
+ * Offset of one landmark from another, measured in torso lengths.
+ * 'x' grows towards the player's left, 'y' grows upwards and 'distance'
+ * is the straight-line distance between the two points.
+ */
+export interface RelativePositionRule {
+  landmark: LandmarkName;
+  relativeTo: LandmarkName;
+  axis: 'x' | 'y' | 'distance';
+  min?: number;
+  max?: number;
+  weight?: number;
+}
+
+export type JointName =
+  | 'leftShoulder' | 'rightShoulder'
+  | 'leftElbow' | 'rightElbow'
+  | 'leftHip' | 'rightHip'
+  | 'leftKnee' | 'rightKnee';
+
+/**
+ * Inner angle at a joint in degrees: 180 is straight, smaller is more bent.
+ * Shoulders and hips measure the angle between the torso and the upper arm or thigh.
+ */
+export interface JointAngleRule {
+  joint: JointName;
+  angle: number;
+  tolerance: number;
+  weight?: number;
+}
+
+export interface PoseDefinition {
+  limbs: LimbAngleRule[];
+  relations?: RelativePositionRule[];
+  joints?: JointAngleRule[];
+  // One-leg pose: the foot that carries the weight while the other is lifted.
+  standOn?: 'left' | 'right';
+  // Accept the left/right swapped version of the rules as well.
+  eitherSide?: boolean;
+  // Recorded skeleton to compare against instead of one built from the limb angles.
+  reference?: Skeleton;
 }
 
 export interface Pose {
@@ -12,10 +105,71 @@ export interface Pose {
   name: string;
   description: string;
   icon: string;
+  definition: PoseDefinition;
+  feedback: {
+    match: string;
+    miss: string;
+  };
+  // Overrides MATCH_THRESHOLD for poses that are harder or easier to hit.
+  threshold?: number;
+  // Difficulty tier; harder tiers join the pool at higher levels. Defaults to 1.
+  tier?: number;
+  // Recorded in the pose studio rather than shipped with the game.
+  custom?: boolean;
 }
 
+// How a limb strays from its rule, seen from the player's body frame.
+export type DeviationDirection = 'high' | 'low' | 'out' | 'in';
+
+export interface JointDeviation {
+  limb: LimbName;
+  // The joint at the far end of the limb, where the error shows.
+  joint: LandmarkName;
+  degrees: number;
+  direction: DeviationDirection;
+}
+
+// Which stock message `feedback` holds, so the UI can show it in the player's language.
+export type FeedbackCode = 'match' | 'miss' | 'no-body' | 'unsteady' | 'off-balance';
+
 export interface MatchResult {
   matched: boolean;
   score: number;
   feedback: string;
+  // Unset when the feedback is free text, as Gemini writes it.
+  feedbackCode?: FeedbackCode;
+  // Limbs outside half their tolerance, largest error first.
+  deviations?: JointDeviation[];
+  // Set when judged over a window of frames rather than a single snapshot.
+  holdMs?: number;
+  stability?: number;
+  // How still the hips stayed over the standing foot, 0-1; one-leg poses only.
+  balance?: number;
+  // Which evaluator produced the verdict.
+  judgedBy?: 'offline' | 'gemini';
+}
+
+export type JudgeMode = 'offline' | 'gemini' | 'hybrid';
+
+// Player measurements taken before a game, in frame-height units (x corrected by aspect ratio).
+export interface BodyCalibration {
+  shoulderWidth: number;
+  torsoLength: number;
+}
+
+// Whether "left" in a pose means the player's own left or the left of the screen.
+export type SideConvention = 'anatomical' | 'screen';
+
+export interface ViewSettings {
+  // Show the camera like a mirror (selfie view) rather than as others see the player.
+  mirrorDisplay: boolean;
+  sides: SideConvention;
+  // Add a mirrored copy of every one-sided pose to the wall pool.
+  mirroredTwins: boolean;
+}
+
+// One pose estimation result, stamped with performance.now().
+export interface PoseFrame {
+  t: number;
+  landmarks: Landmark[];
 }